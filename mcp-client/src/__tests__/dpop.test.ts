@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import { DPOP_KEY_FILE } from "./setup";
+import { createDpopProof, getDpopKey } from "../auth/dpop";
+
+function decode(part: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(part, "base64url").toString("utf-8"));
+}
+
+test("the DPoP key is created once and kept private", () => {
+  const key = getDpopKey();
+  assert.equal(getDpopKey(), key);
+  assert.equal(fs.statSync(DPOP_KEY_FILE).mode & 0o777, 0o600);
+
+  const saved = JSON.parse(fs.readFileSync(DPOP_KEY_FILE, "utf-8"));
+  assert.deepEqual({ kty: saved.kty, crv: saved.crv, x: saved.x, y: saved.y }, key.publicJwk);
+  assert.equal("d" in key.publicJwk, false);
+});
+
+test("proofs are signed for the request, the access token and the server nonce", () => {
+  const key = getDpopKey();
+  const proof = createDpopProof(key, "post", "https://mcp.example/mcp?sessionId=abc#top", {
+    accessToken: "access-token",
+    nonce: "server-nonce",
+  });
+
+  const [header, payload, signature] = proof.split(".");
+  assert.deepEqual(decode(header), { typ: "dpop+jwt", alg: "ES256", jwk: key.publicJwk });
+
+  const claims = decode(payload);
+  assert.equal(claims.htm, "POST");
+  assert.equal(claims.htu, "https://mcp.example/mcp");
+  assert.equal(claims.ath, crypto.createHash("sha256").update("access-token").digest("base64url"));
+  assert.equal(claims.nonce, "server-nonce");
+  assert.equal(typeof claims.jti, "string");
+  assert.ok(Math.abs(Number(claims.iat) - Date.now() / 1000) < 5);
+
+  const verified = crypto.verify(
+    "sha256",
+    Buffer.from(`${header}.${payload}`),
+    { key: crypto.createPublicKey({ key: key.publicJwk, format: "jwk" }), dsaEncoding: "ieee-p1363" },
+    Buffer.from(signature, "base64url")
+  );
+  assert.ok(verified);
+
+  // Every proof gets its own ID, and only carries what it was given
+  const plain = decode(createDpopProof(key, "GET", "https://mcp.example/sse").split(".")[1]);
+  assert.notEqual(plain.jti, claims.jti);
+  assert.equal("ath" in plain, false);
+  assert.equal("nonce" in plain, false);
+});
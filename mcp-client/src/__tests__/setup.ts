@@ -0,0 +1,18 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+/**
+ * Test environment, loaded before every test file (see the `test` script)
+ *
+ * Gives the client the secret its configuration requires and keeps its
+ * DPoP key out of the home directory.
+ */
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-client-test-"));
+process.on("exit", () => fs.rmSync(dir, { recursive: true, force: true }));
+
+export const DPOP_KEY_FILE = path.join(dir, "dpop-key.json");
+
+process.env.MCP_CLIENT_SECRET = "test-secret";
+process.env.DPOP_KEY_FILE = DPOP_KEY_FILE;
@@ -0,0 +1,83 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { DPOP_KEY_FILE } from "../config";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("dpop");
+
+/**
+ * DPoP (RFC 9449) key pair used to sender-constrain access tokens
+ */
+export interface DpopKey {
+  privateKey: crypto.KeyObject;
+  publicJwk: crypto.JsonWebKey;
+}
+
+let dpopKey: DpopKey | null = null;
+
+/**
+ * Load this installation's DPoP key pair, creating it on first use
+ *
+ * The key is persisted so tokens bound to it stay usable across restarts.
+ */
+export function getDpopKey(): DpopKey {
+  if (dpopKey) {
+    return dpopKey;
+  }
+
+  let privateJwk: crypto.JsonWebKey;
+  if (fs.existsSync(DPOP_KEY_FILE)) {
+    privateJwk = JSON.parse(fs.readFileSync(DPOP_KEY_FILE, "utf-8"));
+  } else {
+    const { privateKey } = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+    privateJwk = privateKey.export({ format: "jwk" });
+    fs.mkdirSync(path.dirname(DPOP_KEY_FILE), { recursive: true });
+    fs.writeFileSync(DPOP_KEY_FILE, JSON.stringify(privateJwk), { mode: 0o600 });
+    log.info(`Created DPoP key: ${DPOP_KEY_FILE}`);
+  }
+
+  const { kty, crv, x, y } = privateJwk;
+  dpopKey = {
+    privateKey: crypto.createPrivateKey({ key: privateJwk, format: "jwk" }),
+    publicJwk: { kty, crv, x, y },
+  };
+  return dpopKey;
+}
+
+/**
+ * Create a DPoP proof JWT for one HTTP request
+ */
+export function createDpopProof(
+  key: DpopKey,
+  method: string,
+  url: string,
+  options: { accessToken?: string; nonce?: string } = {}
+): string {
+  const target = new URL(url);
+  const header = { typ: "dpop+jwt", alg: "ES256", jwk: key.publicJwk };
+  const payload: Record<string, string | number> = {
+    jti: crypto.randomUUID(),
+    htm: method.toUpperCase(),
+    htu: `${target.origin}${target.pathname}`,
+    iat: Math.floor(Date.now() / 1000),
+  };
+
+  if (options.accessToken) {
+    payload.ath = crypto.createHash("sha256").update(options.accessToken).digest("base64url");
+  }
+  if (options.nonce) {
+    payload.nonce = options.nonce;
+  }
+
+  const signingInput = `${base64url(header)}.${base64url(payload)}`;
+  const signature = crypto.sign("sha256", Buffer.from(signingInput), {
+    key: key.privateKey,
+    dsaEncoding: "ieee-p1363",
+  });
+  return `${signingInput}.${signature.toString("base64url")}`;
+}
+
+function base64url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
@@ -2,64 +2,99 @@ import * as http from "http";
 import { URL } from "url";
 import { exec } from "child_process";
 import * as querystring from "querystring";
-import { CLIENT_ID, CLIENT_SECRET, REDIRECT_URI, PORT } from "../config";
+import { CLIENT_ID, CLIENT_SECRET, REDIRECT_URI, PORT, MCP_SERVER_URL } from "../config";
+import { createDpopProof, getDpopKey } from "./dpop";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("oauth");
 
 /**
  * Start the OAuth flow to get an access token
  */
-export async function startOAuthFlow(): Promise<string> {
+export async function startOAuthFlow(): Promise<{ access_token: string; token_type: string }> {
   try {
-    console.log("\n🔄 === OAUTH FLOW SEQUENCE STARTED ===");
+    log.flow("\n🔄 === OAUTH FLOW SEQUENCE STARTED ===");
     
     // Step 1: Get OAuth resource configuration from MCP server
-    console.log("\n📡 STEP 1: MCP Resource Metadata Request");
-    console.log("     /.well-known/oauth-protected-resource");
-    const resourceMetadata = await fetchResourceMetadata();
-    console.log("     ✅ Resource Metadata received");
+    log.flow("\n📡 STEP 1: MCP Resource Metadata Request");
+    const resourceMetadataUrl = await discoverResourceMetadataUrl();
+    log.flow(`     ${resourceMetadataUrl}`);
+    const resourceMetadata = await fetchResourceMetadata(resourceMetadataUrl);
+    log.flow("     ✅ Resource Metadata received");
     
     // Step 2: Parse JSON and find authorization servers
-    console.log("\n🔍 STEP 2: Parse JSON and find authorization_servers");
+    log.flow("\n🔍 STEP 2: Parse JSON and find authorization_servers");
     const [authServerUrl] = resourceMetadata.authorization_servers;
-    console.log(`     ✅ Found authorization server: ${authServerUrl}`);
+    const resource = getResourceIndicator(resourceMetadata.resource);
+    log.flow(`     ✅ Found authorization server: ${authServerUrl}`);
+    log.flow(`     ✅ Requesting tokens for resource: ${resource}`);
     
     // Step 3: Get authorization server metadata
-    console.log("\n📡 STEP 3: MCP Authorization Server Metadata Request");
-    console.log("     /.well-known/openid-configuration");
+    log.flow("\n📡 STEP 3: MCP Authorization Server Metadata Request");
+    log.flow("     /.well-known/openid-configuration");
     const serverMetadata = await fetchAuthServerMetadata(authServerUrl);
-    console.log("     ✅ Authorization Server Metadata received");
+    log.flow("     ✅ Authorization Server Metadata received");
     
     // Parse JSON and find OAuth endpoints
-    console.log("\n🔍 STEP 3.5: Parse JSON and find OAuth endpoints");
-    console.log(`     ✅ Found authorization_endpoint: ${serverMetadata.authorization_endpoint}`);
-    console.log(`     ✅ Found token_endpoint: ${serverMetadata.token_endpoint}`);
+    log.flow("\n🔍 STEP 3.5: Parse JSON and find OAuth endpoints");
+    log.flow(`     ✅ Found authorization_endpoint: ${serverMetadata.authorization_endpoint}`);
+    log.flow(`     ✅ Found token_endpoint: ${serverMetadata.token_endpoint}`);
     
     // Step 4: Open browser for authorization and wait for callback
-    console.log("\n🌐 STEP 4: Redirect to Authorization Server");
-    const code = await openAuthorizationWindow(serverMetadata.authorization_endpoint);
-    console.log("\n✅ Received authorization code from callback");
+    log.flow("\n🌐 STEP 4: Redirect to Authorization Server");
+    const code = await openAuthorizationWindow(serverMetadata.authorization_endpoint, resource);
+    log.flow("\n✅ Received authorization code from callback");
     
     // Step 5: Exchange code for token
-    console.log("\n🔑 STEP 5: Token request with authorization code");
-    const tokenData = await exchangeCodeForToken(code, serverMetadata.token_endpoint);
-    console.log("\n✅ Access token received successfully");
+    log.flow("\n🔑 STEP 5: Token request with authorization code");
+    const tokenData = await exchangeCodeForToken(code, serverMetadata.token_endpoint, resource);
+    log.info("Access token received");
     
     // Step 6: Return token for MCP connection
-    console.log("\n🔐 STEP 6: Ready for MCP request with Access Token");
+    log.flow("\n🔐 STEP 6: Ready for MCP request with Access Token");
     
-    return tokenData.access_token;
+    return tokenData;
   } catch (error) {
-    console.error("❌ OAuth flow failed:", error);
+    log.error("OAuth flow failed", error);
     throw error;
   }
 }
 
+/**
+ * Find the protected resource metadata URL from the server's Bearer challenge
+ *
+ * Falls back to the well-known location on the MCP server when the
+ * WWW-Authenticate header carries no resource_metadata parameter.
+ */
+async function discoverResourceMetadataUrl(): Promise<string> {
+  // RFC 9728 section 3.1: the well-known segment goes before the resource's path
+  const serverUrl = new URL(MCP_SERVER_URL);
+  const resourcePath = serverUrl.pathname === "/" ? "" : serverUrl.pathname;
+  const fallbackUrl = `${serverUrl.origin}/.well-known/oauth-protected-resource${resourcePath}`;
+  const controller = new AbortController();
+
+  try {
+    const response = await fetch(`${MCP_SERVER_URL}/sse`, { signal: controller.signal });
+    const challenge = response.headers.get("www-authenticate");
+    const match = challenge?.match(/resource_metadata="([^"]+)"/);
+    return match ? match[1] : fallbackUrl;
+  } catch (error) {
+    log.warn("Failed to read authentication challenge", error);
+    return fallbackUrl;
+  } finally {
+    // Never keep the probe connection open, even if it was accepted
+    controller.abort();
+  }
+}
+
 /**
  * Fetch OAuth protected resource metadata from MCP server
  */
-async function fetchResourceMetadata(): Promise<{ authorization_servers: string[] }> {
-  const resourceResponse = await fetch(
-    "http://localhost:3001/.well-known/oauth-protected-resource"
-  );
+async function fetchResourceMetadata(resourceMetadataUrl: string): Promise<{
+  resource?: string;
+  authorization_servers: string[];
+}> {
+  const resourceResponse = await fetch(resourceMetadataUrl);
 
   if (!resourceResponse.ok) {
     throw new Error(
@@ -70,6 +105,27 @@ async function fetchResourceMetadata(): Promise<{ authorization_servers: string[
   return await resourceResponse.json();
 }
 
+/**
+ * Pick the resource indicator (RFC 8707) to request tokens for
+ *
+ * The metadata's `resource` must identify the server we are connecting to
+ * (RFC 9728 section 3.3); otherwise the metadata can't be trusted.
+ */
+function getResourceIndicator(advertisedResource: string | undefined): string {
+  const expected = MCP_SERVER_URL.replace(/\/$/, "");
+  if (!advertisedResource) {
+    return expected;
+  }
+
+  const resource = advertisedResource.replace(/\/$/, "");
+  if (resource !== expected) {
+    throw new Error(
+      `Protected resource metadata is for ${advertisedResource}, not ${MCP_SERVER_URL}`
+    );
+  }
+  return resource;
+}
+
 /**
  * Fetch authorization server metadata
  */
@@ -79,7 +135,7 @@ async function fetchAuthServerMetadata(authServerUrl: string): Promise<{
 }> {
   // Use the OpenID Connect discovery endpoint instead of OAuth-specific endpoint
   const metadataUrl = `${authServerUrl}/.well-known/oauth-authorization-server`;
-  console.log(`     Requesting: ${metadataUrl}`);
+  log.flow(`     Requesting: ${metadataUrl}`);
   
   const metadataResponse = await fetch(metadataUrl);
 
@@ -95,7 +151,7 @@ async function fetchAuthServerMetadata(authServerUrl: string): Promise<{
 /**
  * Open authorization window in browser and wait for callback with code
  */
-function openAuthorizationWindow(authorizationEndpoint: string): Promise<string> {
+function openAuthorizationWindow(authorizationEndpoint: string, resource: string): Promise<string> {
   return new Promise((resolve, reject) => {
     // Build authorization URL
     const authUrl = new URL(authorizationEndpoint);
@@ -103,12 +159,13 @@ function openAuthorizationWindow(authorizationEndpoint: string): Promise<string>
     authUrl.searchParams.append("redirect_uri", REDIRECT_URI);
     authUrl.searchParams.append("response_type", "code");
     authUrl.searchParams.append("scope", "openid");
+    authUrl.searchParams.append("resource", resource);
     
     // Set up callback server
     const server = http.createServer((req, res) => {
       if (req.url?.startsWith("/callback")) {
         try {
-          console.log("\n📲 Processing callback with authorization code");
+          log.flow("\n📲 Processing callback with authorization code");
           
           // Parse query parameters
           const query = querystring.parse(req.url.split("?")[1] || "");
@@ -139,9 +196,6 @@ function openAuthorizationWindow(authorizationEndpoint: string): Promise<string>
             <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; text-align: center;">
               <h1>Authentication Successful!</h1>
               <p>The authorization code has been received.</p>
-              <div style="padding: 10px; background-color: #f0f0f0; border-radius: 4px; margin: 20px 0; word-break: break-all; text-align: left;">
-                <code>${code.substring(0, 10)}...${code.substring(code.length - 10)}</code>
-              </div>
               <p>You can close this window and return to the terminal.</p>
               <p><small>Part of the MCP Authorization Flow</small></p>
             </body>
@@ -163,12 +217,9 @@ function openAuthorizationWindow(authorizationEndpoint: string): Promise<string>
     
     // Start server and open browser
     server.listen(PORT, () => {
-      console.log(`\n🔄 Starting browser authentication flow`);
-      console.log(`     Callback server listening on port ${PORT}`);
-      console.log("\n=== Authentication Instructions ===");
-      console.log("1. Your browser will open to the authorization page");
-      console.log("2. Log in and authorize the application");
-      console.log("3. The browser will redirect back automatically");
+      log.flow(`\n🔄 Starting browser authentication flow`);
+      log.flow(`     Callback server listening on port ${PORT}`);
+      log.info("Opening the authorization page in your browser; log in and authorize the application");
       
       openBrowser(authUrl.toString());
     });
@@ -178,7 +229,7 @@ function openAuthorizationWindow(authorizationEndpoint: string): Promise<string>
 /**
  * Exchange the authorization code for an access token
  */
-async function exchangeCodeForToken(code: string, tokenEndpoint: string): Promise<{ 
+async function exchangeCodeForToken(code: string, tokenEndpoint: string, resource: string): Promise<{ 
   access_token: string; 
   token_type: string;
   expires_in?: number;
@@ -190,31 +241,39 @@ async function exchangeCodeForToken(code: string, tokenEndpoint: string): Promis
     client_id: CLIENT_ID,
     client_secret: CLIENT_SECRET,
     redirect_uri: REDIRECT_URI,
+    resource,
   };
 
   // Create Basic Auth header
   const basicAuth = Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString("base64");
 
-  // Send token request
-  const tokenResponse = await fetch(tokenEndpoint, {
+  // Send token request with a DPoP proof so a supporting authorization
+  // server binds the token to this installation's key
+  const requestToken = (nonce?: string) => fetch(tokenEndpoint, {
     method: "POST",
     headers: {
       "Content-Type": "application/x-www-form-urlencoded",
       "Authorization": `Basic ${basicAuth}`,
+      "DPoP": createDpopProof(getDpopKey(), "POST", tokenEndpoint, { nonce }),
     },
     body: querystring.stringify(tokenRequest),
   });
 
+  let tokenResponse = await requestToken();
+
+  // Retry once if the authorization server requires a DPoP nonce
+  const dpopNonce = tokenResponse.headers.get("dpop-nonce");
+  if (tokenResponse.status === 400 && dpopNonce) {
+    tokenResponse = await requestToken(dpopNonce);
+  }
+
   if (!tokenResponse.ok) {
     const errorText = await tokenResponse.text();
     throw new Error(`Token exchange failed: ${tokenResponse.status} - ${errorText}`);
   }
 
   const tokenData = await tokenResponse.json();
-  
-  // Log a preview of the token (safely)
-  const token = tokenData.access_token;
-  console.log(`     Token received: ${token.substring(0, 15)}...${token.substring(token.length - 15)}`);
+  log.flow(`     Token received (${tokenData.token_type}, expires in ${tokenData.expires_in ?? "?"}s)`);
 
   return tokenData;
 }
@@ -231,8 +290,8 @@ function openBrowser(url: string): void {
 
   exec(`${command} "${url}"`, (error) => {
     if (error) {
-      console.error(`Failed to open browser: ${error}`);
-      console.log(`Please manually open this URL in your browser: ${url}`);
+      log.error("Failed to open browser", error);
+      log.info(`Please manually open this URL in your browser: ${url}`);
     }
   });
 }
@@ -249,8 +308,14 @@ function respondWithError(
   res.end(
     `<html><body>
       <h1>Authentication Error</h1>
-      <p>${error}: ${description}</p>
+      <p>${escapeHtml(error)}: ${escapeHtml(description)}</p>
       <p>Please close this window and return to the terminal.</p>
     </body></html>`
   );
-} 
\ No newline at end of file
+} 
+/**
+ * Escape text for inclusion in an HTML page
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
@@ -2,6 +2,11 @@
  * Token utility functions for handling JWT tokens
  */
 
+import { createDpopProof, getDpopKey } from "./dpop";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("token");
+
 /**
  * Decode and parse a JWT token
  */
@@ -18,7 +23,7 @@ export function decodeToken(token: string): { header: any, payload: any, hasSign
 
     return decoded;
   } catch (error) {
-    console.error("Failed to decode token:", error);
+    log.error("Failed to decode token", error);
     return { 
       header: { error: "Invalid token format" }, 
       payload: { error: "Invalid token format" }, 
@@ -48,28 +53,60 @@ function decodeBase64Part(b64: string): any {
 
 /**
  * Patch the global fetch function to include authorization headers
+ *
+ * DPoP tokens get a fresh proof for every request. If the server asks for
+ * a DPoP nonce, the request is retried once with the nonce it supplied.
  */
-export function patchFetchWithToken(token: string): () => void {
+export function patchFetchWithToken(token: string, tokenType: string = "Bearer"): () => void {
   const originalFetch = global.fetch;
-  
-  global.fetch = function (input, init) {
+  const useDpop = tokenType.toLowerCase() === "dpop";
+  let dpopNonce: string | undefined;
+
+  const authorizedFetch = (input: string | URL | Request, init?: RequestInit) => {
     // Create a new init object to avoid modifying the original
     const newInit = { ...(init || {}) };
-    
-    // Make sure headers exist
-    newInit.headers = newInit.headers || {};
-    
+
+    // Headers may be a plain object or a Headers instance; copy either way
+    const headers = new Headers(newInit.headers);
+
     // Add the Authorization header with the token to ALL requests
-    if (typeof newInit.headers === "object") {
-      (newInit.headers as any).Authorization = `Bearer ${token}`;
+    if (useDpop) {
+      const url = input instanceof Request ? input.url : input.toString();
+      const method = newInit.method || (input instanceof Request ? input.method : "GET");
+      headers.set("Authorization", `DPoP ${token}`);
+      headers.set("DPoP", createDpopProof(getDpopKey(), method, url, {
+        accessToken: token,
+        nonce: dpopNonce,
+      }));
+    } else {
+      headers.set("Authorization", `Bearer ${token}`);
     }
-    
+    newInit.headers = headers;
+
     // Call the original fetch with our modified headers
     return originalFetch(input, newInit);
   };
+
+  global.fetch = async function (input, init) {
+    const response = await authorizedFetch(input, init);
+    if (!useDpop) {
+      return response;
+    }
+
+    // Remember the latest nonce; retry once if the server demanded one
+    const nonce = response.headers.get("dpop-nonce");
+    if (nonce) {
+      const retry = response.status === 401 && nonce !== dpopNonce;
+      dpopNonce = nonce;
+      if (retry) {
+        return authorizedFetch(input, init);
+      }
+    }
+    return response;
+  };
   
   // Return a cleanup function to restore original fetch
   return () => {
     global.fetch = originalFetch;
   };
-} 
\ No newline at end of file
+}
@@ -2,9 +2,78 @@
  * MCP Client Configuration
  */
 
+import * as os from "os";
+import { z } from "zod";
+import { ConfigError, loadConfig, SettingSource } from "mcp-shared";
+
+export { ConfigError } from "mcp-shared";
+
+const clientConfigSchema = z.object({
+  oauth: z.object({
+    clientId: z.string().min(1).default("mcp-client"),
+    // Never committed; give it in the config file, MCP_CLIENT_SECRET or --client-secret
+    clientSecret: z.string().min(1, "a client secret is required"),
+    redirectUri: z.string().url().default("http://localhost:3000/callback"),
+    // Port the local callback server listens on
+    callbackPort: z.number().int().min(0).max(65535).default(3000),
+  }).strict().default({ clientSecret: "" }),
+
+  server: z.object({
+    url: z.string().url().default("http://localhost:3001"),
+  }).strict().default({}),
+
+  dpop: z.object({
+    // File holding this installation's DPoP private key
+    keyFile: z.string().default(`${os.homedir()}/.mcp-client/dpop-key.json`),
+  }).strict().default({}),
+
+  logging: z.object({
+    level: z.enum(["debug", "info", "warn", "error"]).default("info"),
+    format: z.enum(["pretty", "json"]).default("pretty"),
+    explainFlow: z.boolean().default(false),
+  }).strict().default({}),
+}).strict();
+
+export type ClientConfig = z.infer<typeof clientConfigSchema>;
+
+// Settings that can be given as environment variables or flags
+const sources: SettingSource[] = [
+  { path: "oauth.clientId", env: "MCP_CLIENT_ID", flag: "client-id", type: "string" },
+  { path: "oauth.clientSecret", env: "MCP_CLIENT_SECRET", flag: "client-secret", type: "string" },
+  { path: "oauth.redirectUri", env: "MCP_REDIRECT_URI", flag: "redirect-uri", type: "string" },
+  { path: "oauth.callbackPort", env: "MCP_CALLBACK_PORT", flag: "callback-port", type: "number" },
+  { path: "server.url", env: "MCP_SERVER_URL", flag: "server-url", type: "string" },
+  { path: "dpop.keyFile", env: "DPOP_KEY_FILE", flag: "dpop-key-file", type: "string" },
+  { path: "logging.level", env: "LOG_LEVEL", flag: "log-level", type: "string" },
+  { path: "logging.format", env: "LOG_FORMAT", flag: "log-format", type: "string" },
+  { path: "logging.explainFlow", env: "LOG_EXPLAIN_FLOW", flag: "explain-flow", type: "boolean" },
+];
+
+/**
+ * Load and validate the client configuration, exiting with a readable
+ * message when it is invalid
+ */
+function loadClientConfig(): ClientConfig {
+  try {
+    return loadConfig(clientConfigSchema, sources, { fileEnv: "MCP_CLIENT_CONFIG" }).config;
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      process.stderr.write(`${error.message}\n`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+// The client configuration, loaded once at startup
+export const config: ClientConfig = loadClientConfig();
+
 // OAuth configuration
-export const CLIENT_ID = "mcp-client";
-export const CLIENT_SECRET = "mcp-client-secret";
-export const REDIRECT_URI = "http://localhost:3000/callback";
-export const PORT = 3000;
-export const MCP_SERVER_URL = "http://localhost:3001"; 
\ No newline at end of file
+export const CLIENT_ID = config.oauth.clientId;
+export const CLIENT_SECRET = config.oauth.clientSecret;
+export const REDIRECT_URI = config.oauth.redirectUri;
+export const PORT = config.oauth.callbackPort;
+export const MCP_SERVER_URL = config.server.url;
+
+// File holding this installation's DPoP private key
+export const DPOP_KEY_FILE = config.dpop.keyFile;
@@ -6,9 +6,12 @@ import { patchFetchWithToken } from "../auth/token";
 /**
  * Create an SSE transport with authentication
  */
-export async function createAuthenticatedTransport(token: string): Promise<SSEClientTransport> {
-  // Patch fetch to include authorization headers
-  patchFetchWithToken(token);
+export async function createAuthenticatedTransport(
+  token: string,
+  tokenType: string = "Bearer"
+): Promise<SSEClientTransport> {
+  // Patch fetch to include authorization (and DPoP proof) headers
+  patchFetchWithToken(token, tokenType);
   
   // Create the SSE transport with the server URL
   const sseUrl = new URL(`${MCP_SERVER_URL}/sse`);
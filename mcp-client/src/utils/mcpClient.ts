@@ -2,6 +2,9 @@ import { Client } from "@modelcontextprotocol/sdk/client/index";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse";
 import { decodeToken } from "../auth/token";
 import { createAuthenticatedTransport } from "../transport/sseTransport";
+import { createLogger } from "./logger";
+
+const log = createLogger("mcp");
 
 /**
  * Get a configured MCP client
@@ -25,36 +28,41 @@ export function getMcpClient(): Client {
 /**
  * Connect to MCP server with token
  */
-export async function connectWithToken(client: Client, token: string): Promise<void> {
+export async function connectWithToken(
+  client: Client,
+  token: string,
+  tokenType: string = "Bearer"
+): Promise<void> {
   try {
-    console.log("\n🔒 === MCP CONNECTION WITH TOKEN ===");
+    log.flow("\n🔒 === MCP CONNECTION WITH TOKEN ===");
     
-    // Log token information for debugging
+    // Narrate the token's claims
     const tokenInfo = decodeToken(token);
-    console.log("\n📝 Token Information:");
-    console.log(`     Subject: ${tokenInfo.payload.sub || 'unknown'}`);
-    console.log(`     Issuer: ${tokenInfo.payload.iss || 'unknown'}`);
-    console.log(`     Expiration: ${tokenInfo.payload.exp ? new Date(tokenInfo.payload.exp * 1000).toLocaleString() : 'unknown'}`);
+    log.flow("\n📝 Token Information:");
+    log.flow(`     Subject: ${tokenInfo.payload.sub || 'unknown'}`);
+    log.flow(`     Issuer: ${tokenInfo.payload.iss || 'unknown'}`);
+    log.flow(`     Expiration: ${tokenInfo.payload.exp ? new Date(tokenInfo.payload.exp * 1000).toLocaleString() : 'unknown'}`);
+    log.flow(`     Token type: ${tokenType}`);
     
     // Create an authenticated transport
-    console.log("\n🔑 MCP Request with Access Token");
-    console.log("     Creating authenticated transport with token");
-    const transport = await createAuthenticatedTransport(token);
+    log.flow("\n🔑 MCP Request with Access Token");
+    log.flow("     Creating authenticated transport with token");
+    const transport = await createAuthenticatedTransport(token, tokenType);
     
     // Connect to the MCP server
-    console.log("     Connecting to MCP server...");
+    log.info("Connecting to MCP server...");
     await client.connect(transport);
-    console.log("\n✅ Connected to MCP server successfully with token!");
+    log.info("Connected to MCP server with token");
     
     // List available tools
-    console.log("\n🛠️ FINAL STEP: Begin standard MCP message exchange");
+    log.flow("\n🛠️ FINAL STEP: Begin standard MCP message exchange");
     const tools = await client.listTools();
-    console.log(`     Available tools: ${JSON.stringify(tools)}`);
-    console.log("\n🎉 Authentication flow complete: ready for MCP interaction");
+    log.info(`Available tools: ${tools.tools.map((tool) => tool.name).join(", ")}`);
+    log.flow("\n🎉 Authentication flow complete: ready for MCP interaction");
     
     return;
   } catch (error) {
-    console.error("\n❌ Failed to connect to MCP server with token:", error);
+    log.error("Failed to connect to MCP server with token", error);
     throw error;
   }
 } 
\ No newline at end of file
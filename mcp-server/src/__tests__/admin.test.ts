@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { signToken } from "./setup";
+import { principal, startServer, TestServer } from "./helpers";
+import { createStreamableHttpTransport, sessionManager } from "../mcp";
+
+function admin(server: TestServer, method: string, path: string, token: string, body?: unknown): Promise<Response> {
+  return fetch(`${server.url}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+test("the admin API needs the admin scope", async () => {
+  const server = await startServer();
+  try {
+    const response = await admin(server, "GET", "/admin/sessions", await signToken());
+    assert.equal(response.status, 403);
+    assert.match(response.headers.get("www-authenticate") ?? "", /insufficient_scope/);
+  } finally {
+    await server.close();
+  }
+});
+
+test("closing a subject's sessions only closes those of the named issuer", async () => {
+  const server = await startServer();
+  const token = await signToken({ scope: "mcp:admin" });
+  const fromA = createStreamableHttpTransport(true, { ...principal("alice", []), issuer: "https://a.example" });
+  const fromB = createStreamableHttpTransport(true, { ...principal("alice", []), issuer: "https://b.example" });
+  try {
+    const listed = await admin(server, "GET", "/admin/sessions?subject=alice&issuer=https://b.example", token);
+    assert.deepEqual((await listed.json()).sessions.map((s: { sessionId: string }) => s.sessionId), [fromB.sessionId]);
+
+    assert.equal((await admin(server, "DELETE", "/admin/sessions?subject=alice", token)).status, 400);
+
+    const closed = await admin(server, "DELETE", "/admin/sessions?subject=alice&issuer=https://a.example", token);
+    assert.deepEqual(await closed.json(), { terminated: 1 });
+    assert.equal(sessionManager.getTransport(fromA.sessionId), undefined);
+    assert.ok(sessionManager.getTransport(fromB.sessionId));
+
+    const shown = await admin(server, "GET", `/admin/sessions/${fromB.sessionId}`, token);
+    assert.equal((await shown.json()).issuer, "https://b.example");
+  } finally {
+    await sessionManager.terminate(fromB.sessionId);
+    await server.close();
+  }
+});
+
+test("admin paths must match whole segments and be well encoded", async () => {
+  const server = await startServer();
+  const token = await signToken({ scope: "mcp:admin" });
+  try {
+    assert.equal((await admin(server, "GET", "/admin/sessionsXYZ", token)).status, 404);
+    assert.equal((await admin(server, "GET", "/admin/sessions/no-such-session", token)).status, 404);
+    assert.equal((await admin(server, "GET", "/admin/sessions/%E0%A4%A", token)).status, 400);
+    assert.equal((await admin(server, "DELETE", "/admin/denylist/%ZZ", token)).status, 400);
+  } finally {
+    await server.close();
+  }
+});
+
+test("deny list entries are validated before they are added", async () => {
+  const server = await startServer();
+  const token = await signToken({ scope: "mcp:admin" });
+  try {
+    const unscoped = await admin(server, "POST", "/admin/denylist", token, { type: "subject", value: "alice" });
+    assert.equal(unscoped.status, 400);
+    assert.match((await unscoped.json()).error, /issuer/);
+
+    const unknown = await admin(server, "POST", "/admin/denylist", token, { type: "jti", value: "j1", extra: true });
+    assert.equal(unknown.status, 400);
+
+    const added = await admin(server, "POST", "/admin/denylist", token, {
+      type: "subject",
+      value: "mallory",
+      issuer: "https://a.example",
+    });
+    assert.equal(added.status, 201);
+    const { id } = await added.json();
+    assert.equal((await admin(server, "DELETE", `/admin/denylist/${id}`, token)).status, 200);
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,117 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { IncomingMessage } from "node:http";
+import { signToken } from "./setup";
+import { startServer } from "./helpers";
+import { Router } from "../server/router";
+import { sseMessagesHandler } from "../routes/sse";
+import { buildAuthChallenges } from "../middleware/auth";
+import { dpopConfig } from "../auth/dpop";
+import { AuthError, missingTokenError } from "../auth/errors";
+
+test("a /.well-known/ query string doesn't skip authentication", async () => {
+  const server = await startServer();
+  try {
+    const message = await fetch(`${server.url}/messages?sessionId=abc&x=/.well-known/`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }),
+    });
+    assert.equal(message.status, 401);
+
+    // Used to return without answering, leaving the request hanging
+    const admin = await fetch(`${server.url}/admin/sessions?/.well-known/`, { signal: AbortSignal.timeout(5000) });
+    assert.equal(admin.status, 401);
+    assert.match(admin.headers.get("www-authenticate") ?? "", /^Bearer /);
+  } finally {
+    await server.close();
+  }
+});
+
+test("discovery documents are served without a token", async () => {
+  const server = await startServer();
+  try {
+    const response = await fetch(`${server.url}/.well-known/oauth-protected-resource`);
+    assert.equal(response.status, 200);
+  } finally {
+    await server.close();
+  }
+});
+
+test("SSE messages without an authenticated caller are refused even past the middleware", async () => {
+  const server = await startServer(new Router().post("/messages*", sseMessagesHandler));
+  try {
+    const response = await fetch(`${server.url}/messages?sessionId=abc`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{}",
+    });
+    assert.equal(response.status, 401);
+  } finally {
+    await server.close();
+  }
+});
+
+const request = { headers: { host: "mcp.example" } } as IncomingMessage;
+const METADATA = "http://mcp.example/.well-known/oauth-protected-resource";
+const ALGS = dpopConfig.algorithms.join(" ");
+
+test("requests without a token get Bearer and DPoP challenges with no error code", () => {
+  assert.deepEqual(buildAuthChallenges(request, missingTokenError()), [
+    `Bearer resource_metadata="${METADATA}", scope="openid"`,
+    `DPoP resource_metadata="${METADATA}", algs="${ALGS}", scope="openid"`,
+  ]);
+});
+
+test("errors are described in the challenge for the scheme they apply to, with quotes escaped", () => {
+  const bearer = new AuthError("invalid_token", 'Token "abc" has expired');
+  assert.deepEqual(buildAuthChallenges(request, bearer), [
+    `Bearer resource_metadata="${METADATA}", error="invalid_token", error_description="Token \\"abc\\" has expired", scope="openid"`,
+    `DPoP resource_metadata="${METADATA}", algs="${ALGS}", scope="openid"`,
+  ]);
+
+  const dpop = new AuthError("invalid_dpop_proof", "DPoP proof is malformed", { scheme: "DPoP" });
+  assert.deepEqual(buildAuthChallenges(request, dpop), [
+    `Bearer resource_metadata="${METADATA}", scope="openid"`,
+    `DPoP resource_metadata="${METADATA}", algs="${ALGS}", error="invalid_dpop_proof", error_description="DPoP proof is malformed", scope="openid"`,
+  ]);
+});
+
+test("scope failures name the scope that is needed", () => {
+  const error = new AuthError("insufficient_scope", "This endpoint requires scope: mcp:echo", { scope: "mcp:echo" });
+  const [bearer] = buildAuthChallenges(request, error);
+  assert.equal(error.status, 403);
+  assert.match(bearer, /error="insufficient_scope"/);
+  assert.match(bearer, /scope="mcp:echo"$/);
+});
+
+test("only the DPoP challenge is offered once DPoP is required", () => {
+  dpopConfig.required = true;
+  try {
+    assert.deepEqual(buildAuthChallenges(request, missingTokenError()), [
+      `DPoP resource_metadata="${METADATA}", algs="${ALGS}", scope="openid"`,
+    ]);
+  } finally {
+    dpopConfig.required = false;
+  }
+});
+
+test("401 and 400 responses carry the challenges", async () => {
+  const server = await startServer();
+  try {
+    const invalid = await fetch(`${server.url}/mcp`, {
+      headers: { Authorization: `Bearer ${await signToken({ aud: "https://elsewhere.example" })}` },
+    });
+    assert.equal(invalid.status, 401);
+    assert.match(invalid.headers.get("www-authenticate") ?? "", /^Bearer resource_metadata="http:\/\/127\.0\.0\.1:\d+\/\.well-known\/oauth-protected-resource", error="invalid_token", /);
+    assert.equal((await invalid.json()).error, "invalid_token");
+
+    const twice = await fetch(`${server.url}/mcp`, {
+      headers: { Authorization: "Bearer a", Cookie: "access_token=b" },
+    });
+    assert.equal(twice.status, 400);
+    assert.match(twice.headers.get("www-authenticate") ?? "", /error="invalid_request"/);
+  } finally {
+    await server.close();
+  }
+});
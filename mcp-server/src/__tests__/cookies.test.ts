@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { IncomingMessage } from "node:http";
+import { parseCookies } from "../utils/cookies";
+import { authConfig, extractToken, TokenMethod } from "../middleware/auth";
+import { AuthError } from "../auth/errors";
+
+function request(url: string, headers: IncomingMessage["headers"] = {}): IncomingMessage {
+  return { url, headers: { host: "localhost", ...headers } } as IncomingMessage;
+}
+
+function withTokenMethods<T>(methods: TokenMethod[], run: () => T): T {
+  const configured = authConfig.tokenMethods;
+  authConfig.tokenMethods = methods;
+  try {
+    return run();
+  } finally {
+    authConfig.tokenMethods = configured;
+  }
+}
+
+function rejectedWith(message: RegExp) {
+  return (error: unknown) => error instanceof AuthError && error.code === "invalid_request" && message.test(error.message);
+}
+
+test("cookie values are unquoted, decoded and keep their '=' characters", () => {
+  const cookies = parseCookies('a=b64==; quoted="x y"; encoded=%7Bz%7D; bad=%E0%A4%A; a=second');
+  assert.equal(cookies.a, "b64==");
+  assert.equal(cookies.quoted, "x y");
+  assert.equal(cookies.encoded, "{z}");
+  assert.equal(cookies.bad, "%E0%A4%A");
+});
+
+test("names inherited from Object.prototype are not cookies", () => {
+  const empty = parseCookies("");
+  for (const name of ["constructor", "__proto__", "toString", "hasOwnProperty"]) {
+    assert.equal(empty[name], undefined);
+  }
+
+  const sent = parseCookies("constructor=a; __proto__=b; toString=c");
+  assert.equal(sent.constructor, "a");
+  assert.equal(sent.__proto__, "b");
+  assert.equal(sent.toString, "c");
+});
+
+test("a token is taken from whichever single allowed method carries it", () => {
+  withTokenMethods(["header", "query", "cookie"], () => {
+    assert.deepEqual(extractToken(request("/mcp", { authorization: "Bearer from-header" })), {
+      token: "from-header",
+      source: "header",
+      scheme: "Bearer",
+    });
+    assert.deepEqual(extractToken(request("/mcp", { authorization: "DPoP bound" })), {
+      token: "bound",
+      source: "header",
+      scheme: "DPoP",
+    });
+    assert.equal(extractToken(request("/mcp?access_token=from-query")).source, "query");
+    assert.equal(extractToken(request("/mcp", { cookie: 'access_token="a.b.c="' })).token, "a.b.c=");
+    assert.equal(extractToken(request("/mcp")).token, null);
+  });
+});
+
+test("requests presenting more than one token are rejected (RFC 6750 section 2)", () => {
+  withTokenMethods(["header", "query", "cookie"], () => {
+    assert.throws(
+      () => extractToken(request("/mcp?access_token=q", { authorization: "Bearer h" })),
+      rejectedWith(/\(header, query\)/)
+    );
+    assert.throws(
+      () => extractToken(request("/mcp", { authorization: "Bearer h", cookie: "access_token=c" })),
+      rejectedWith(/\(header, cookie\)/)
+    );
+    assert.throws(
+      () => extractToken(request("/mcp?access_token=q", { cookie: "access_token=c" })),
+      rejectedWith(/\(query, cookie\)/)
+    );
+  });
+});
+
+test("tokens sent through a method that isn't allowed are rejected, not ignored", () => {
+  withTokenMethods(["header"], () => {
+    assert.throws(() => extractToken(request("/mcp?access_token=q")), rejectedWith(/in the query/));
+    assert.throws(() => extractToken(request("/mcp", { cookie: "access_token=c" })), rejectedWith(/in the cookie/));
+  });
+});
@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { startServer } from "./helpers";
+import { isOriginAllowed } from "../utils/cors";
+
+test("origins are matched exactly or by their wildcard pattern", () => {
+  assert.equal(isOriginAllowed("http://localhost:3000"), true);
+  assert.equal(isOriginAllowed("http://localhost:3001"), false);
+  assert.equal(isOriginAllowed("https://app.example.com"), true);
+  assert.equal(isOriginAllowed("https://example.com"), false);
+  assert.equal(isOriginAllowed("https://app.example.com.evil.test"), false);
+  // "." in a pattern is literal
+  assert.equal(isOriginAllowed("https://app.exampleXcom"), false);
+  assert.equal(isOriginAllowed("http://app.example.com"), false);
+});
+
+test("preflights from allowed origins are told what the route accepts", async () => {
+  const server = await startServer();
+  try {
+    const response = await fetch(`${server.url}/mcp`, {
+      method: "OPTIONS",
+      headers: { Origin: "http://localhost:3000", "Access-Control-Request-Method": "DELETE" },
+    });
+    assert.equal(response.status, 204);
+    assert.equal(response.headers.get("access-control-allow-origin"), "http://localhost:3000");
+    assert.equal(response.headers.get("access-control-allow-credentials"), "true");
+    assert.equal(response.headers.get("access-control-allow-methods"), "GET, POST, DELETE");
+    assert.match(response.headers.get("access-control-allow-headers") ?? "", /\bMcp-Session-Id\b/);
+    assert.equal(response.headers.get("access-control-max-age"), "600");
+    assert.equal(response.headers.get("vary"), "Origin");
+
+    // A method the route doesn't take gets no allow headers
+    const wrongMethod = await fetch(`${server.url}/sse`, {
+      method: "OPTIONS",
+      headers: { Origin: "https://app.example.com", "Access-Control-Request-Method": "DELETE" },
+    });
+    assert.equal(wrongMethod.status, 204);
+    assert.equal(wrongMethod.headers.get("access-control-allow-origin"), "https://app.example.com");
+    assert.equal(wrongMethod.headers.get("access-control-allow-methods"), null);
+  } finally {
+    await server.close();
+  }
+});
+
+test("other origins get no CORS headers at all", async () => {
+  const server = await startServer();
+  try {
+    const preflight = await fetch(`${server.url}/mcp`, {
+      method: "OPTIONS",
+      headers: { Origin: "https://evil.test", "Access-Control-Request-Method": "POST" },
+    });
+    assert.equal(preflight.status, 204);
+    for (const name of ["access-control-allow-origin", "access-control-allow-methods", "access-control-allow-credentials"]) {
+      assert.equal(preflight.headers.get(name), null);
+    }
+    assert.equal(preflight.headers.get("vary"), "Origin");
+
+    const request = await fetch(`${server.url}/.well-known/oauth-protected-resource`, {
+      headers: { Origin: "https://evil.test" },
+    });
+    assert.equal(request.status, 200);
+    assert.equal(request.headers.get("access-control-allow-origin"), null);
+  } finally {
+    await server.close();
+  }
+});
+
+test("responses to allowed origins expose the auth and session headers, failures included", async () => {
+  const server = await startServer();
+  try {
+    const response = await fetch(`${server.url}/mcp`, { headers: { Origin: "http://localhost:3000" } });
+    assert.equal(response.status, 401);
+    assert.equal(response.headers.get("access-control-allow-origin"), "http://localhost:3000");
+    const exposed = (response.headers.get("access-control-expose-headers") ?? "").split(", ");
+    for (const name of ["WWW-Authenticate", "Mcp-Session-Id", "DPoP-Nonce"]) {
+      assert.ok(exposed.includes(name), `${name} is exposed`);
+    }
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,155 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash, generateKeyPairSync, randomUUID } from "node:crypto";
+import { setTimeout as sleep } from "node:timers/promises";
+import { calculateJwkThumbprint, JWK, JWTPayload, SignJWT } from "jose";
+import { signToken } from "./setup";
+import { startServer } from "./helpers";
+import { dpopConfig, getDpopNonce, verifyDpopProof } from "../auth/dpop";
+import { AuthError, BearerErrorCode } from "../auth/errors";
+import { simpleAuthMiddleware } from "../middleware/auth";
+import { Router } from "../server/router";
+
+const URL = "https://mcp.example/mcp";
+const ACCESS_TOKEN = "access-token";
+
+const { publicKey, privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+const publicJwk = publicKey.export({ format: "jwk" }) as JWK;
+let jkt: string;
+
+before(async () => {
+  jkt = await calculateJwkThumbprint(publicJwk);
+});
+
+function ath(token: string): string {
+  return createHash("sha256").update(token).digest("base64url");
+}
+
+/**
+ * Sign a proof for `GET URL` bound to ACCESS_TOKEN; `claims` and `header`
+ * are added to or replace the defaults
+ */
+function createProof(claims: JWTPayload = {}, header: Record<string, unknown> = {}): Promise<string> {
+  return new SignJWT({
+    jti: randomUUID(),
+    htm: "GET",
+    htu: URL,
+    iat: Math.floor(Date.now() / 1000),
+    ath: ath(ACCESS_TOKEN),
+    ...claims,
+  })
+    .setProtectedHeader({ typ: "dpop+jwt", alg: "ES256", jwk: publicJwk, ...header })
+    .sign(privateKey);
+}
+
+function verify(proof: string, options: { method?: string; url?: string; jkt?: string } = {}): Promise<void> {
+  return verifyDpopProof({
+    proof,
+    method: options.method ?? "GET",
+    url: options.url ?? URL,
+    accessToken: ACCESS_TOKEN,
+    jkt: "jkt" in options ? options.jkt : jkt,
+  });
+}
+
+function rejectedWith(code: BearerErrorCode, message: RegExp) {
+  return (error: unknown) => error instanceof AuthError && error.code === code && message.test(error.message);
+}
+
+test("a proof for the request, token and key is accepted", async () => {
+  await verify(await createProof());
+  // htu is compared without the query
+  await verify(await createProof(), { url: `${URL}?sessionId=abc` });
+});
+
+test("proofs for another method or URL are rejected", async () => {
+  await assert.rejects(verify(await createProof(), { method: "POST" }), rejectedWith("invalid_dpop_proof", /different HTTP method/));
+  await assert.rejects(
+    verify(await createProof({ htu: "https://mcp.example/sse" })),
+    rejectedWith("invalid_dpop_proof", /different URL/)
+  );
+});
+
+test("proofs without a matching access token hash are rejected", async () => {
+  await assert.rejects(verify(await createProof({ ath: undefined })), rejectedWith("invalid_dpop_proof", /not bound/));
+  await assert.rejects(verify(await createProof({ ath: ath("another-token") })), rejectedWith("invalid_dpop_proof", /not bound/));
+});
+
+test("proofs signed with a key other than the token's confirmation key are rejected", async () => {
+  const other = generateKeyPairSync("ec", { namedCurve: "P-256" }).publicKey;
+  const otherJkt = await calculateJwkThumbprint(other.export({ format: "jwk" }) as JWK);
+  await assert.rejects(verify(await createProof(), { jkt: otherJkt }), rejectedWith("invalid_token", /confirmation key/));
+  await assert.rejects(verify(await createProof(), { jkt: undefined }), rejectedWith("invalid_token", /not DPoP-bound/));
+});
+
+test("a proof can only be used once", async () => {
+  const proof = await createProof();
+  await verify(proof);
+  await assert.rejects(verify(proof), rejectedWith("invalid_dpop_proof", /already been used/));
+});
+
+test("stale proofs and proofs that aren't DPoP proofs are rejected", async () => {
+  const stale = Math.floor(Date.now() / 1000) - dpopConfig.maxAgeSeconds - dpopConfig.clockSkewSeconds - 10;
+  await assert.rejects(verify(await createProof({ iat: stale })), rejectedWith("invalid_dpop_proof", /invalid/));
+  await assert.rejects(verify(await createProof({}, { typ: "JWT" })), rejectedWith("invalid_dpop_proof", /invalid/));
+});
+
+test("when nonces are required, missing and expired nonces get a use_dpop_nonce challenge", async () => {
+  const lifetime = dpopConfig.nonceLifetimeMs;
+  dpopConfig.requireNonce = true;
+  try {
+    const missing = await verify(await createProof()).catch((error) => error);
+    assert.ok(missing instanceof AuthError);
+    assert.equal(missing.code, "use_dpop_nonce");
+    assert.equal(missing.dpopNonce, getDpopNonce());
+
+    const nonce = getDpopNonce();
+    await verify(await createProof({ nonce }));
+
+    // The previous nonce is still honoured after one rotation, but not two
+    const [afterOne, afterTwo] = await Promise.all([createProof({ nonce }), createProof({ nonce })]);
+    dpopConfig.nonceLifetimeMs = 200;
+    await sleep(250);
+    assert.notEqual(getDpopNonce(), nonce);
+    await verify(afterOne);
+    await sleep(250);
+    getDpopNonce();
+    await assert.rejects(verify(afterTwo), rejectedWith("use_dpop_nonce", /fresh DPoP nonce/));
+  } finally {
+    dpopConfig.requireNonce = false;
+    dpopConfig.nonceLifetimeMs = lifetime;
+  }
+});
+
+test("nonces are handed out with the challenge and with every accepted proof", async () => {
+  const router = new Router()
+    .use((req, res, next) => simpleAuthMiddleware(req, res, next, true))
+    .get("/whoami", (req, res) => {
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ sub: req.auth?.subject }));
+    });
+  const server = await startServer(router);
+  dpopConfig.requireNonce = true;
+  try {
+    const token = await signToken({ cnf: { jkt } });
+    const request = async (nonce?: string) => fetch(`${server.url}/whoami`, {
+      headers: {
+        Authorization: `DPoP ${token}`,
+        DPoP: await createProof({ htu: `${server.url}/whoami`, ath: ath(token), nonce }),
+      },
+    });
+
+    const challenged = await request();
+    assert.equal(challenged.status, 401);
+    assert.match(challenged.headers.get("www-authenticate") ?? "", /DPoP .*error="use_dpop_nonce"/);
+    const nonce = challenged.headers.get("dpop-nonce");
+    assert.ok(nonce);
+
+    const accepted = await request(nonce);
+    assert.equal(accepted.status, 200);
+    assert.deepEqual(await accepted.json(), { sub: "alice" });
+    assert.equal(accepted.headers.get("dpop-nonce"), getDpopNonce());
+  } finally {
+    dpopConfig.requireNonce = false;
+    await server.close();
+  }
+});
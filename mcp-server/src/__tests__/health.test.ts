@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { ISSUER } from "./setup";
+import { startServer } from "./helpers";
+import { healthConfig, MetadataProbe } from "../health";
+import { startKeyManagers, stopKeyManagers } from "../auth/tokenValidator";
+import { sessionManager } from "../mcp";
+
+test("metadata probes are cached and shared by concurrent callers", async () => {
+  let requests = 0;
+  let status = 200;
+  const server = createServer((req, res) => {
+    requests++;
+    assert.equal(req.url, "/.well-known/oauth-authorization-server");
+    res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify({ issuer: "x" }));
+  });
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+
+  try {
+    const cached = new MetadataProbe({ ...healthConfig, metadataCacheMs: 60_000 });
+    const [first, second] = await Promise.all([cached.check(url), cached.check(url)]);
+    assert.equal(first, second);
+    assert.equal(first.reachable, true);
+    await cached.check(url);
+    assert.equal(requests, 1);
+
+    status = 500;
+    const uncached = new MetadataProbe({ ...healthConfig, metadataCacheMs: 0 });
+    const failed = await uncached.check(url);
+    assert.equal(failed.reachable, false);
+    assert.equal(failed.error, "Metadata request returned 500");
+    assert.equal(requests, 2);
+  } finally {
+    server.close();
+    await once(server, "close");
+  }
+});
+
+test("the server is only ready once the issuer's signing keys are loaded", async () => {
+  const server = await startServer();
+  try {
+    const live = await fetch(`${server.url}/ping`);
+    assert.equal(live.status, 200);
+    assert.equal((await live.json()).status, "ok");
+
+    const before = await fetch(`${server.url}/readyz`);
+    assert.equal(before.status, 503);
+    assert.equal(before.headers.get("cache-control"), "no-store");
+    const report = await before.json();
+    assert.equal(report.status, "not_ready");
+    assert.deepEqual(report.reasons, [`Signing keys for ${ISSUER} are not loaded`]);
+
+    await startKeyManagers();
+    const after = await fetch(`${server.url}/readyz`);
+    assert.equal(after.status, 200);
+    const ready = await after.json();
+    assert.deepEqual(ready.reasons, []);
+    assert.deepEqual(ready.checks.jwks.map((keySet: { loaded: boolean }) => keySet.loaded), [true]);
+    assert.deepEqual(ready.checks.tools.registered, ["echo", "calculator", "weather"]);
+    // The test issuer has no metadata to fetch, which only counts when required
+    assert.equal(ready.checks.authorizationServers[0].reachable, false);
+
+    healthConfig.requireAuthorizationServer = true;
+    try {
+      const required = await fetch(`${server.url}/readyz`);
+      assert.equal(required.status, 503);
+      assert.deepEqual((await required.json()).reasons, [`Authorization server ${ISSUER} is unreachable`]);
+    } finally {
+      healthConfig.requireAuthorizationServer = false;
+    }
+
+    // Draining servers take themselves out of rotation
+    sessionManager.stopAccepting();
+    const draining = await fetch(`${server.url}/readyz`);
+    assert.equal(draining.status, 503);
+    assert.deepEqual((await draining.json()).reasons, ["The server is shutting down"]);
+  } finally {
+    stopKeyManagers();
+    await server.close();
+  }
+});
@@ -0,0 +1,61 @@
+import { once } from "node:events";
+import { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createMcpServer } from "../mcp/server";
+import { Principal } from "../auth/principal";
+import { createRouter } from "../app";
+import { HttpServer } from "../server/http-server";
+import { Router } from "../server/router";
+
+/**
+ * A caller from the test issuer holding the given scopes
+ */
+export function principal(subject: string, scopes: string[]): Principal {
+  return {
+    subject,
+    issuer: "https://issuer.example",
+    groups: [],
+    scopes,
+    token: `token-of-${subject}`,
+    claims: { sub: subject, iss: "https://issuer.example", scope: scopes.join(" ") },
+  };
+}
+
+/**
+ * Open a session for `caller` on its own MCP server, connected in memory
+ */
+export async function connect(caller?: Principal): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer(caller).connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return client;
+}
+
+// A server listening on a random local port
+export interface TestServer {
+  // Base URL, without a trailing slash
+  url: string;
+  server: HttpServer;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve `router` (by default the server's own routes) on a random local port
+ */
+export async function startServer(router: Router = createRouter()): Promise<TestServer> {
+  const server = new HttpServer(router);
+  const http = server.start(0, "127.0.0.1");
+  await once(http, "listening");
+  const { port } = http.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    server,
+    close: async () => {
+      server.closeConnections();
+      await server.close();
+    },
+  };
+}
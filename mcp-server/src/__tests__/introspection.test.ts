@@ -0,0 +1,162 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { createServer, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { startServer } from "./helpers";
+import { IntrospectionConfig, IntrospectionTokenValidator } from "../auth/introspectionValidator";
+import { getTokenValidator, setTokenValidator } from "../auth/validator";
+import { AuthError } from "../auth/errors";
+
+// A stand-in authorization server answering introspection requests
+interface Endpoint {
+  url: string;
+  requests: Array<{ authorization?: string; body: URLSearchParams }>;
+  // Answer to the next requests: a status and JSON body, or raw text
+  reply: { status: number; body: unknown };
+  close(): Promise<void>;
+}
+
+async function startEndpoint(): Promise<Endpoint> {
+  const endpoint = { requests: [], reply: { status: 200, body: { active: false } } } as unknown as Endpoint;
+  const server: Server = createServer(async (req: IncomingMessage, res) => {
+    let body = "";
+    for await (const chunk of req) {
+      body += chunk;
+    }
+    endpoint.requests.push({ authorization: req.headers.authorization, body: new URLSearchParams(body) });
+
+    const { status, body: reply } = endpoint.reply;
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(typeof reply === "string" ? reply : JSON.stringify(reply));
+  });
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+
+  endpoint.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/introspect`;
+  endpoint.close = async () => {
+    server.close();
+    await once(server, "close");
+  };
+  return endpoint;
+}
+
+function createValidator(endpoint: Endpoint, config: Partial<IntrospectionConfig> = {}): IntrospectionTokenValidator {
+  return new IntrospectionTokenValidator({
+    endpoint: endpoint.url,
+    clientId: "mcp-server",
+    clientSecret: "s3cret:/",
+    audience: "",
+    ...config,
+  });
+}
+
+const inFiveMinutes = () => Math.floor(Date.now() / 1000) + 300;
+
+function unavailable(error: unknown): boolean {
+  return error instanceof AuthError && error.status === 503 && error.code === undefined;
+}
+
+test("active tokens are introspected once and then served from the cache", async () => {
+  const endpoint = await startEndpoint();
+  try {
+    endpoint.reply = { status: 200, body: { active: true, sub: "alice", scope: "openid mcp:echo", exp: inFiveMinutes() } };
+    const validator = createValidator(endpoint);
+
+    const principal = await validator.validate("opaque-token");
+    assert.equal(principal.subject, "alice");
+    assert.deepEqual(principal.scopes, ["openid", "mcp:echo"]);
+    assert.equal((await validator.validate("opaque-token")).subject, "alice");
+    assert.equal(endpoint.requests.length, 1);
+
+    const [{ authorization, body }] = endpoint.requests;
+    assert.equal(authorization, `Basic ${Buffer.from("mcp-server:s3cret%3A%2F").toString("base64")}`);
+    assert.equal(body.get("token"), "opaque-token");
+    assert.equal(body.get("token_type_hint"), "access_token");
+
+    // Each token has its own entry
+    await validator.validate("another-token");
+    assert.equal(endpoint.requests.length, 2);
+  } finally {
+    await endpoint.close();
+  }
+});
+
+test("active tokens are not cached past maxCacheTtlMs", async () => {
+  const endpoint = await startEndpoint();
+  try {
+    endpoint.reply = { status: 200, body: { active: true, username: "bob", exp: inFiveMinutes() } };
+    const validator = createValidator(endpoint, { maxCacheTtlMs: 0 });
+
+    assert.equal((await validator.validate("opaque-token")).subject, "bob");
+    await validator.validate("opaque-token");
+    assert.equal(endpoint.requests.length, 2);
+  } finally {
+    await endpoint.close();
+  }
+});
+
+test("inactive and unacceptable tokens are rejected and remembered", async () => {
+  const endpoint = await startEndpoint();
+  try {
+    const validator = createValidator(endpoint, { audience: "https://mcp.example" });
+    const invalid = (message: RegExp) => (error: unknown) =>
+      error instanceof AuthError && error.code === "invalid_token" && message.test(error.message);
+
+    endpoint.reply = { status: 200, body: { active: false } };
+    await assert.rejects(validator.validate("inactive"), invalid(/not active/));
+    await assert.rejects(validator.validate("inactive"), invalid(/not active/));
+    assert.equal(endpoint.requests.length, 1);
+
+    endpoint.reply = { status: 200, body: { active: true, sub: "alice", aud: ["https://other.example"] } };
+    await assert.rejects(validator.validate("elsewhere"), invalid(/not issued for this resource/));
+
+    endpoint.reply = { status: 200, body: { active: true, sub: "alice", aud: "https://mcp.example", exp: 1 } };
+    await assert.rejects(validator.validate("expired"), invalid(/expired/));
+  } finally {
+    await endpoint.close();
+  }
+});
+
+test("endpoint failures are a 503 and are not cached", async () => {
+  const endpoint = await startEndpoint();
+  try {
+    const validator = createValidator(endpoint);
+
+    endpoint.reply = { status: 500, body: { error: "server_error" } };
+    await assert.rejects(validator.validate("opaque-token"), unavailable);
+
+    endpoint.reply = { status: 200, body: "not json" };
+    await assert.rejects(validator.validate("opaque-token"), unavailable);
+
+    endpoint.reply = { status: 200, body: { active: "yes", sub: "alice" } };
+    await assert.rejects(validator.validate("opaque-token"), unavailable);
+
+    endpoint.reply = { status: 200, body: { active: true, sub: "alice" } };
+    assert.equal((await validator.validate("opaque-token")).subject, "alice");
+    assert.equal(endpoint.requests.length, 4);
+  } finally {
+    await endpoint.close();
+  }
+});
+
+test("an unreachable endpoint makes requests fail with 503 temporarily_unavailable", async () => {
+  const endpoint = await startEndpoint();
+  await endpoint.close();
+
+  const validator = createValidator(endpoint);
+  await assert.rejects(validator.validate("opaque-token"), unavailable);
+
+  const previous = getTokenValidator();
+  setTokenValidator(validator);
+  const server = await startServer();
+  try {
+    const response = await fetch(`${server.url}/mcp`, { headers: { Authorization: "Bearer opaque-token" } });
+    assert.equal(response.status, 503);
+    assert.equal(response.headers.get("www-authenticate"), null);
+    assert.equal((await response.json()).error, "temporarily_unavailable");
+  } finally {
+    setTokenValidator(previous);
+    await server.close();
+  }
+});
@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { FlattenedJWSInput } from "jose";
+import { JwksKeyManager } from "../auth/keyManager";
+import { AuthError } from "../auth/errors";
+
+test("requests while the JWKS is unavailable don't each refetch it", async () => {
+  let fetches = 0;
+  const idp = createServer((_req, res) => {
+    fetches++;
+    res.writeHead(500).end();
+  });
+  await new Promise<void>((resolve) => idp.listen(0, "127.0.0.1", resolve));
+  const { port } = idp.address() as AddressInfo;
+
+  const manager = new JwksKeyManager(`http://127.0.0.1:${port}/keys`, { refreshCooldownMs: 60 * 1000 });
+  try {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await assert.rejects(
+        async () => manager.getKey({ alg: "RS256", kid: "k1" }, {} as FlattenedJWSInput),
+        (error: unknown) => error instanceof AuthError && error.status === 503
+      );
+    }
+    assert.equal(fetches, 1);
+  } finally {
+    manager.stop();
+    idp.close();
+  }
+});
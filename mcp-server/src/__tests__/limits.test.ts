@@ -0,0 +1,135 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { principal, startServer } from "./helpers";
+import { checkRouteLimit, checkToolLimit, rateLimitConfig } from "../limits";
+import { FileQuotaStore } from "../limits/quotaStore";
+import { TokenBucketLimiter } from "../limits/tokenBucket";
+
+test("token buckets allow bursts up to capacity, then refill over time", (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, "now", () => now);
+  const limiter = new TokenBucketLimiter();
+  const limit = { capacity: 2, refillPerSecond: 0.5 };
+
+  assert.equal(limiter.take("a", limit), 0);
+  assert.equal(limiter.take("a", limit), 0);
+  assert.equal(limiter.take("a", limit), 2);
+  // Buckets are per key
+  assert.equal(limiter.take("b", limit), 0);
+
+  now += 2000;
+  assert.equal(limiter.take("a", limit), 0);
+  assert.equal(limiter.take("a", limit), 2);
+
+  // Refills never exceed the capacity
+  now += 60_000;
+  assert.equal(limiter.take("a", limit), 0);
+  assert.equal(limiter.take("a", limit), 0);
+  assert.ok(limiter.take("a", limit) > 0);
+
+  assert.equal(limiter.take("c", { capacity: 1, refillPerSecond: 0 }), 0);
+  assert.equal(limiter.take("c", { capacity: 1, refillPerSecond: 0 }), Infinity);
+});
+
+test("daily quotas are counted per key and survive a restart", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "quota-test-"));
+  try {
+    const file = path.join(dir, "nested", "quotas.json");
+    const store = new FileQuotaStore(file);
+    assert.equal(store.consume("alice", 2), 0);
+    assert.equal(store.consume("alice", 2), 0);
+    const retryAfter = store.consume("alice", 2);
+    assert.ok(retryAfter > 0 && retryAfter <= 24 * 60 * 60);
+    assert.equal(store.consume("bob", 2), 0);
+    store.flush();
+
+    const restarted = new FileQuotaStore(file);
+    assert.ok(restarted.consume("alice", 2) > 0);
+    assert.equal(restarted.consume("bob", 2), 0);
+    assert.equal(fs.existsSync(`${file}.tmp`), false);
+
+    // Counts from an earlier day are dropped
+    fs.writeFileSync(file, JSON.stringify({ day: "2000-01-01", counts: { alice: 99 } }));
+    assert.equal(new FileQuotaStore(file).consume("alice", 2), 0);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("the most generous matching tier scales the buckets", () => {
+  const { routes, tiers } = rateLimitConfig;
+  rateLimitConfig.routes = { "/tiered": { capacity: 1, refillPerSecond: 0 } };
+  rateLimitConfig.tiers = [
+    { scope: "mcp:pro", multiplier: 3 },
+    { group: "staff", multiplier: 2 },
+  ];
+  try {
+    const allowed = (caller: ReturnType<typeof principal>) => {
+      let count = 0;
+      while (!checkRouteLimit("/tiered/x", caller, caller.subject) && count < 10) {
+        count++;
+      }
+      return count;
+    };
+
+    assert.equal(allowed(principal("basic", ["openid"])), 1);
+    assert.equal(allowed({ ...principal("staff", ["openid"]), groups: ["staff"] }), 2);
+    assert.equal(allowed({ ...principal("pro", ["mcp:pro"]), groups: ["staff"] }), 3);
+    // Unlisted routes aren't limited
+    assert.equal(checkRouteLimit("/elsewhere", undefined, "anonymous"), null);
+  } finally {
+    rateLimitConfig.routes = routes;
+    rateLimitConfig.tiers = tiers;
+  }
+});
+
+test("tiers can raise or lift the daily tool-call quota", () => {
+  const { tools, tiers, dailyToolCalls } = rateLimitConfig;
+  rateLimitConfig.tools = {};
+  rateLimitConfig.dailyToolCalls = 2;
+  rateLimitConfig.tiers = [
+    { scope: "mcp:more", multiplier: 1, dailyToolCalls: 3 },
+    { scope: "mcp:unlimited", multiplier: 1, dailyToolCalls: 0 },
+  ];
+  try {
+    const calls = (scopes: string[], key: string) => {
+      let count = 0;
+      while (!checkToolLimit("echo", principal(key, scopes), key) && count < 10) {
+        count++;
+      }
+      return count;
+    };
+
+    assert.equal(calls(["openid"], "quota-basic"), 2);
+    assert.equal(calls(["mcp:more"], "quota-more"), 3);
+    assert.equal(calls(["mcp:more", "mcp:unlimited"], "quota-unlimited"), 10);
+    assert.match(checkToolLimit("echo", undefined, "quota-basic")?.message ?? "", /Daily quota of 2/);
+  } finally {
+    rateLimitConfig.tools = tools;
+    rateLimitConfig.dailyToolCalls = dailyToolCalls;
+    rateLimitConfig.tiers = tiers;
+  }
+});
+
+test("requests are limited per address before their tokens are checked", async () => {
+  const { perIp } = rateLimitConfig;
+  rateLimitConfig.perIp = { capacity: 2, refillPerSecond: 0.01 };
+  const server = await startServer();
+  try {
+    const statuses: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      const response = await fetch(`${server.url}/mcp`, { headers: { Authorization: "Bearer not-a-token" } });
+      statuses.push(response.status);
+      if (response.status === 429) {
+        assert.equal(response.headers.get("retry-after"), "100");
+      }
+    }
+    assert.deepEqual(statuses, [401, 401, 429]);
+  } finally {
+    rateLimitConfig.perIp = perIp;
+    await server.close();
+  }
+});
@@ -0,0 +1,118 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { signToken } from "./setup";
+import { startServer, TestServer } from "./helpers";
+import { createStreamableHttpTransport, sessionManager } from "../mcp";
+
+const initialize = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test-client", version: "1.0.0" } },
+};
+
+function post(server: TestServer, body: unknown, token?: string, sessionId?: string): Promise<Response> {
+  return fetch(`${server.url}/mcp`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+function request(server: TestServer, method: string, sessionId: string, token?: string): Promise<Response> {
+  return fetch(`${server.url}/mcp`, {
+    method,
+    headers: {
+      "Mcp-Session-Id": sessionId,
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+test("initialize opens a session that only its principal can use and end", async () => {
+  const server = await startServer();
+  const alice = await signToken({ sub: "alice" });
+  const mallory = await signToken({ sub: "mallory" });
+  try {
+    const opened = await post(server, initialize, alice);
+    assert.equal(opened.status, 200);
+    const sessionId = opened.headers.get("mcp-session-id");
+    assert.ok(sessionId);
+    assert.equal((await opened.json()).result.serverInfo.name, "my-mcp-server");
+
+    const listed = await post(server, { jsonrpc: "2.0", id: 2, method: "tools/list" }, alice, sessionId);
+    assert.equal(listed.status, 200);
+    const { tools } = (await listed.json()).result;
+    assert.deepEqual(tools.map((tool: { name: string }) => tool.name), ["calculator", "weather"]);
+
+    assert.equal((await post(server, { jsonrpc: "2.0", id: 3, method: "ping" }, mallory, sessionId)).status, 401);
+    assert.equal((await request(server, "GET", sessionId, mallory)).status, 401);
+    assert.equal((await request(server, "DELETE", sessionId, mallory)).status, 401);
+    assert.equal((await request(server, "DELETE", sessionId)).status, 401);
+
+    assert.equal((await request(server, "DELETE", sessionId, alice)).status, 200);
+    assert.equal((await request(server, "DELETE", sessionId, alice)).status, 404);
+  } finally {
+    await server.close();
+  }
+});
+
+test("initialize without a token doesn't open a session", async () => {
+  const server = await startServer();
+  try {
+    const before = sessionManager.list().length;
+    const response = await post(server, initialize);
+    assert.equal(response.status, 401);
+    assert.equal(response.headers.get("mcp-session-id"), null);
+
+    const bypass = await fetch(`${server.url}/mcp?x=/.well-known/`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify(initialize),
+    });
+    assert.equal(bypass.status, 401);
+    assert.equal(sessionManager.list().length, before);
+  } finally {
+    await server.close();
+  }
+});
+
+test("an initialize batch with an invalid message leaves no session behind", async () => {
+  const server = await startServer();
+  try {
+    const before = sessionManager.list().length;
+    const response = await post(server, [initialize, { not: "a message" }], await signToken());
+    assert.equal(response.status, 400);
+    assert.equal(sessionManager.list().length, before);
+  } finally {
+    await server.close();
+  }
+});
+
+test("requests for an unknown session get 404", async () => {
+  const server = await startServer();
+  try {
+    const token = await signToken();
+    assert.equal((await post(server, { jsonrpc: "2.0", id: 1, method: "ping" }, token, "no-such-session")).status, 404);
+    assert.equal((await request(server, "GET", "no-such-session", token)).status, 404);
+  } finally {
+    await server.close();
+  }
+});
+
+test("a session without a principal can't be used by anyone", async () => {
+  const server = await startServer();
+  const transport = createStreamableHttpTransport(true);
+  try {
+    const response = await post(server, { jsonrpc: "2.0", id: 1, method: "ping" }, await signToken(), transport.sessionId);
+    assert.equal(response.status, 401);
+  } finally {
+    await sessionManager.terminate(transport.sessionId);
+    await server.close();
+  }
+});
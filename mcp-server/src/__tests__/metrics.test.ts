@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { signToken } from "./setup";
+import { startServer } from "./helpers";
+import { metricsConfig } from "../metrics";
+
+function withMetricsAccess<T>(access: { allowedIps?: string[]; token?: string }, run: () => Promise<T>): Promise<T> {
+  const { allowedIps, token } = metricsConfig;
+  metricsConfig.allowedIps = access.allowedIps ?? [];
+  metricsConfig.token = access.token;
+  return run().finally(() => {
+    metricsConfig.allowedIps = allowedIps;
+    metricsConfig.token = token;
+  });
+}
+
+test("metrics are served without an access token when no restriction is configured", async () => {
+  const server = await startServer();
+  try {
+    await withMetricsAccess({}, async () => {
+      const response = await fetch(`${server.url}/metrics`);
+      assert.equal(response.status, 200);
+      assert.match(response.headers.get("content-type") ?? "", /^text\/plain; version=0\.0\.4/);
+      assert.match(await response.text(), /^# TYPE mcp_http_requests_total counter$/m);
+    });
+  } finally {
+    await server.close();
+  }
+});
+
+test("scrapers from addresses outside allowedIps are refused", async () => {
+  const server = await startServer();
+  try {
+    await withMetricsAccess({ allowedIps: ["10.0.0.1"] }, async () => {
+      const response = await fetch(`${server.url}/metrics`);
+      assert.equal(response.status, 403);
+      assert.deepEqual(await response.json(), { error: "forbidden" });
+    });
+    await withMetricsAccess({ allowedIps: ["10.0.0.1", "127.0.0.1"] }, async () => {
+      assert.equal((await fetch(`${server.url}/metrics`)).status, 200);
+    });
+  } finally {
+    await server.close();
+  }
+});
+
+test("scrapers must present the scrape token, not an access token, when one is set", async () => {
+  const server = await startServer();
+  try {
+    await withMetricsAccess({ token: "scrape-token" }, async () => {
+      const scrape = (authorization?: string) =>
+        fetch(`${server.url}/metrics`, { headers: authorization ? { Authorization: authorization } : {} });
+
+      const missing = await scrape();
+      assert.equal(missing.status, 401);
+      assert.equal(missing.headers.get("www-authenticate"), 'Bearer realm="metrics"');
+
+      assert.equal((await scrape("Bearer wrong-token")).status, 401);
+      assert.equal((await scrape("Bearer scrape-token-and-more")).status, 401);
+      assert.equal((await scrape(`Bearer ${await signToken({ scope: "openid admin" })}`)).status, 401);
+      assert.equal((await scrape("Bearer scrape-token")).status, 200);
+    });
+
+    // Both checks apply when both are configured
+    await withMetricsAccess({ allowedIps: ["10.0.0.1"], token: "scrape-token" }, async () => {
+      const response = await fetch(`${server.url}/metrics`, { headers: { Authorization: "Bearer scrape-token" } });
+      assert.equal(response.status, 403);
+    });
+  } finally {
+    await server.close();
+  }
+});
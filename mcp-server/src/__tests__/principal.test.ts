@@ -0,0 +1,21 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isSamePrincipal, principalFromClaims } from "../auth/principal";
+import { AuthError } from "../auth/errors";
+import { getCallerKey } from "../limits";
+
+test("tokens without a subject are rejected as invalid_token", () => {
+  assert.throws(
+    () => principalFromClaims({ iss: "https://a.example", scope: "openid" }, "token"),
+    (error: unknown) => error instanceof AuthError && error.code === "invalid_token"
+  );
+});
+
+test("the same subject from two issuers is two principals", () => {
+  const fromA = principalFromClaims({ iss: "https://a.example", sub: "alice" }, "token-a");
+  const fromB = principalFromClaims({ iss: "https://b.example", sub: "alice" }, "token-b");
+
+  assert.equal(isSamePrincipal(fromA, fromB), false);
+  assert.equal(isSamePrincipal(fromA, principalFromClaims({ iss: "https://a.example", sub: "alice" }, "t")), true);
+  assert.notEqual(getCallerKey(fromA, "ip:127.0.0.1"), getCallerKey(fromB, "ip:127.0.0.1"));
+});
@@ -0,0 +1,85 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  FileRevocationStore,
+  InvalidRevocationError,
+  MemoryRevocationStore,
+  RevocationEntry,
+  RevocationList,
+  revocationMatches,
+  RevocationStoreError,
+} from "../revocation";
+import { Principal } from "../auth/principal";
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "revocations-"));
+}
+
+test("a missing revocation file loads as an empty list", () => {
+  const dir = tempDir();
+  try {
+    assert.deepEqual(new FileRevocationStore(path.join(dir, "revocations.json")).load(), []);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("a revocation file that can't be parsed fails to load", () => {
+  const dir = tempDir();
+  const file = path.join(dir, "revocations.json");
+  try {
+    fs.writeFileSync(file, "[{");
+    assert.throws(() => new FileRevocationStore(file).load(), RevocationStoreError);
+    fs.writeFileSync(file, "{}");
+    assert.throws(() => new FileRevocationStore(file).load(), RevocationStoreError);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("a revocation that can't be saved is not added", () => {
+  const dir = tempDir();
+  const file = path.join(dir, "revocations.json");
+  try {
+    const list = new RevocationList(new FileRevocationStore(file));
+    // The temporary file is a directory, so saving fails
+    fs.mkdirSync(`${file}.tmp`);
+
+    assert.throws(() => list.add({ type: "subject", value: "mallory" }));
+    assert.deepEqual(list.list(), []);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function principalOf(subject: string, issuer: string): Principal {
+  return { subject, issuer, groups: [], scopes: [], token: "token", claims: { sub: subject, iss: issuer, jti: "j1" } };
+}
+
+test("subject revocations only apply to the subject at the issuer they name", () => {
+  const list = new RevocationList(new MemoryRevocationStore());
+  list.add({ type: "subject", value: "alice", issuer: "https://a.example" });
+
+  assert.ok(list.match(principalOf("alice", "https://a.example")));
+  assert.equal(list.match(principalOf("alice", "https://b.example")), undefined);
+});
+
+test("subject revocations without an issuer are refused", () => {
+  const list = new RevocationList(new MemoryRevocationStore());
+
+  assert.throws(() => list.add({ type: "subject", value: "alice" }), InvalidRevocationError);
+  assert.throws(
+    () => list.add({ type: "issued_before", value: "alice", issuedBefore: new Date().toISOString() }),
+    InvalidRevocationError
+  );
+});
+
+test("entries saved before revocations named an issuer still apply at every issuer", () => {
+  const entry: RevocationEntry = { id: "1", type: "subject", value: "alice", createdAt: new Date().toISOString() };
+
+  assert.equal(revocationMatches(entry, principalOf("alice", "https://a.example")), true);
+  assert.equal(revocationMatches(entry, principalOf("alice", "https://b.example")), true);
+});
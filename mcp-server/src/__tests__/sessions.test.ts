@@ -0,0 +1,133 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { connect, principal } from "./helpers";
+import { SessionLimitError, SessionManager, SessionsClosedError, SessionTransport } from "../mcp";
+import { Principal } from "../auth/principal";
+
+test("concurrent sessions each list the tools of their own principal", async () => {
+  const alice = await connect(principal("alice", ["mcp:echo"]));
+  const bob = await connect(principal("bob", ["openid"]));
+
+  const [aliceTools, bobTools] = await Promise.all([alice.listTools(), bob.listTools()]);
+  assert.deepEqual(aliceTools.tools.map((tool) => tool.name), ["echo", "calculator", "weather"]);
+  assert.deepEqual(bobTools.tools.map((tool) => tool.name), ["calculator", "weather"]);
+
+  await Promise.all([alice.close(), bob.close()]);
+});
+
+test("a session without a principal is only offered tools that need no scope", async () => {
+  const client = await connect();
+
+  const { tools } = await client.listTools();
+  assert.deepEqual(tools.map((tool) => tool.name), ["calculator", "weather"]);
+  await client.close();
+});
+
+test("closing one session leaves the others working", async () => {
+  const alice = await connect(principal("alice", ["openid"]));
+  const carol = await connect(principal("carol", ["openid"]));
+
+  await alice.close();
+
+  const result = await carol.callTool({ name: "calculator", arguments: { operation: "multiply", a: 6, b: 7 } });
+  assert.deepEqual(result.content, [{ type: "text", text: "Result of multiply 6 and 7: 42" }]);
+  await assert.rejects(alice.listTools());
+  await carol.close();
+});
+
+// A transport that records what the session manager does with it
+function fakeTransport(sessionId: string) {
+  const transport = {
+    sessionId,
+    sent: [] as string[],
+    closed: false,
+    async send(message: { method: string }) {
+      transport.sent.push(message.method);
+    },
+    async close() {
+      transport.closed = true;
+    },
+  };
+  return transport;
+}
+
+function register(manager: SessionManager, sessionId: string, caller?: Principal) {
+  const transport = fakeTransport(sessionId);
+  manager.register(transport as unknown as SessionTransport, caller);
+  return transport;
+}
+
+test("sessions without client requests are evicted once idle", async () => {
+  const manager = new SessionManager({ idleTimeoutMs: 100, sweepIntervalMs: 20, maxPerSubject: 0 });
+  try {
+    const idle = register(manager, "idle-session", principal("alice", ["openid"]));
+    const busy = register(manager, "busy-session", principal("bob", ["openid"]));
+
+    for (let i = 0; i < 8; i++) {
+      await sleep(25);
+      manager.touch("busy-session");
+    }
+
+    assert.equal(idle.closed, true);
+    assert.equal(manager.getTransport("idle-session"), undefined);
+    assert.equal(busy.closed, false);
+    assert.deepEqual(manager.list().map((session) => session.sessionId), ["busy-session"]);
+  } finally {
+    await manager.closeAll();
+  }
+});
+
+test("sessions are closed when their token expires, unless it was renewed", async () => {
+  const manager = new SessionManager({ idleTimeoutMs: 0, sweepIntervalMs: 1000, maxPerSubject: 0 });
+  try {
+    const expiring = { ...principal("alice", ["openid"]), expiresAt: Date.now() + 50 };
+    const expired = register(manager, "expired-session", expiring);
+    const renewed = register(manager, "renewed-session", expiring);
+    manager.renew("renewed-session", { ...expiring, expiresAt: Date.now() + 60_000 });
+    // A newer token from someone else doesn't extend the session
+    manager.renew("expired-session", { ...principal("mallory", ["openid"]), expiresAt: Date.now() + 60_000 });
+
+    await sleep(150);
+    assert.deepEqual(expired.sent, ["sse/session_expired"]);
+    assert.equal(expired.closed, true);
+    assert.equal(manager.getTransport("expired-session"), undefined);
+    assert.equal(renewed.closed, false);
+    assert.ok(manager.list()[0].expiresAt! > Date.now() + 50_000);
+  } finally {
+    await manager.closeAll();
+  }
+});
+
+test("a principal may only hold maxPerSubject sessions at once", async () => {
+  const manager = new SessionManager({ idleTimeoutMs: 0, sweepIntervalMs: 1000, maxPerSubject: 2 });
+  try {
+    register(manager, "alice-1", principal("alice", ["openid"]));
+    register(manager, "alice-2", principal("alice", ["openid"]));
+    assert.throws(() => register(manager, "alice-3", principal("alice", ["openid"])), SessionLimitError);
+
+    // Other principals, including the same subject at another issuer, have their own allowance
+    register(manager, "bob-1", principal("bob", ["openid"]));
+    register(manager, "other-alice", { ...principal("alice", ["openid"]), issuer: "https://other.example" });
+
+    manager.remove("alice-1");
+    register(manager, "alice-3", principal("alice", ["openid"]));
+    assert.equal(manager.list().length, 4);
+  } finally {
+    await manager.closeAll();
+  }
+});
+
+test("once sessions are closed for shutdown, clients are told and no new ones open", async () => {
+  const manager = new SessionManager({ idleTimeoutMs: 0, sweepIntervalMs: 1000, maxPerSubject: 0 });
+  const open = register(manager, "open-session", principal("alice", ["openid"]));
+
+  manager.stopAccepting();
+  assert.equal(manager.isAccepting(), false);
+  assert.throws(() => register(manager, "late-session", principal("bob", ["openid"])), SessionsClosedError);
+
+  await manager.closeAll();
+  assert.deepEqual(open.sent, ["sse/server_shutdown"]);
+  assert.equal(open.closed, true);
+  assert.deepEqual(manager.list(), []);
+});
@@ -0,0 +1,62 @@
+import { generateKeyPairSync, KeyObject } from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { JWTPayload, SignJWT } from "jose";
+
+/**
+ * Test environment, loaded before every test file (see the `test` script)
+ *
+ * Points the server at a local issuer whose keys are generated here, turns
+ * on every tool, adds a wildcard CORS origin and keeps revocations and
+ * quotas out of the working tree. Tests sign access tokens with `signToken`.
+ */
+
+export const ISSUER = "https://issuer.test";
+export const AUDIENCE = "http://localhost:3001";
+export const KEY_ID = "test-key";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+export const issuerPublicKey: KeyObject = publicKey;
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-server-test-"));
+const jwksFile = path.join(dir, "jwks.json");
+fs.writeFileSync(jwksFile, JSON.stringify({
+  keys: [{ ...publicKey.export({ format: "jwk" }), kid: KEY_ID, alg: "RS256", use: "sig" }],
+}));
+process.on("exit", () => fs.rmSync(dir, { recursive: true, force: true }));
+
+process.env.JWT_ISSUER = ISSUER;
+process.env.JWT_JWKS_FILE = jwksFile;
+process.env.REVOCATION_STORE = "memory";
+process.env.RATE_LIMIT_QUOTA_FILE = path.join(dir, "quotas.json");
+// echo requires the mcp:echo scope; the other tools are open to every caller
+process.env.MCP_TOOLS = "echo,calculator,weather";
+process.env.CORS_ALLOWED_ORIGINS = "http://localhost:3000,https://*.example.com";
+
+// How a test token is signed, when not with the issuer's own key
+export interface SignOptions {
+  alg?: string;
+  key?: KeyObject | Uint8Array;
+  kid?: string;
+  typ?: string;
+}
+
+/**
+ * Sign an access token from the test issuer for `alice`, valid for five
+ * minutes; `claims` are added to or replace the defaults
+ */
+export function signToken(claims: JWTPayload = {}, options: SignOptions = {}): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return new SignJWT({
+    iss: ISSUER,
+    aud: AUDIENCE,
+    sub: "alice",
+    scope: "openid",
+    iat: now,
+    exp: now + 300,
+    ...claims,
+  })
+    .setProtectedHeader({ alg: options.alg ?? "RS256", kid: options.kid ?? KEY_ID, typ: options.typ ?? "JWT" })
+    .sign(options.key ?? privateKey);
+}
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { connect, principal, startServer } from "./helpers";
+import { shutdown } from "../server/shutdown";
+import { sessionManager, SessionTransport } from "../mcp";
+import { calculatorTool } from "../mcp/tools/calculator";
+
+test("shutdown waits for every tool call, including ones started while draining, before closing sessions", async (t) => {
+  const events: string[] = [];
+  const pending = new Map<number, () => void>();
+  t.mock.method(calculatorTool, "handler", async (args: Record<string, any>) => {
+    events.push(`call ${args.a} started`);
+    await new Promise<void>((resolve) => pending.set(args.a, resolve));
+    events.push(`call ${args.a} returned`);
+    return { content: [{ type: "text", text: String(args.a) }] };
+  });
+  const waitForCall = async (a: number) => {
+    while (!pending.has(a)) {
+      await sleep(5);
+    }
+  };
+
+  // A session whose client is told about the shutdown
+  sessionManager.register({
+    sessionId: "open-session",
+    send: async (message: { method: string }) => {
+      events.push(`session notified: ${message.method}`);
+    },
+    close: async () => {
+      events.push("session closed");
+    },
+  } as unknown as SessionTransport, principal("alice", ["openid"]));
+
+  const client = await connect(principal("alice", ["openid"]));
+  const first = client.callTool({ name: "calculator", arguments: { operation: "add", a: 1, b: 0 } });
+  await waitForCall(1);
+
+  const server = await startServer();
+  let finished = false;
+  const done = shutdown(server.server, { drainTimeoutMs: 5000, closeTimeoutMs: 100 }).then(() => {
+    events.push("shut down");
+    finished = true;
+  });
+
+  // Started on an open session after the drain began
+  const second = client.callTool({ name: "calculator", arguments: { operation: "add", a: 2, b: 0 } });
+  await waitForCall(2);
+  pending.get(1)!();
+  await first;
+  await sleep(50);
+  assert.equal(finished, false);
+
+  pending.get(2)!();
+  await Promise.all([second, done]);
+  assert.deepEqual(events, [
+    "call 1 started",
+    "call 2 started",
+    "call 1 returned",
+    "call 2 returned",
+    "session notified: sse/server_shutdown",
+    "session closed",
+    "shut down",
+  ]);
+  assert.equal(sessionManager.isAccepting(), false);
+  await client.close();
+});
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { issuerPublicKey, signToken } from "./setup";
+import { verifyToken } from "../auth/tokenValidator";
+import { AuthError } from "../auth/errors";
+
+function rejectedWith(message: RegExp) {
+  return (error: unknown) => error instanceof AuthError && error.code === "invalid_token" && message.test(error.message);
+}
+
+/**
+ * Build an unsigned token from a header and claims
+ */
+function unsignedToken(header: object, claims: object): string {
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString("base64url");
+  return `${encode(header)}.${encode(claims)}.`;
+}
+
+test("tokens signed with the issuer's key and algorithm are accepted", async () => {
+  const claims = await verifyToken(await signToken({ sub: "bob" }));
+  assert.equal(claims.sub, "bob");
+});
+
+test("unsigned tokens are rejected", async () => {
+  const valid = await signToken();
+  const claims = JSON.parse(Buffer.from(valid.split(".")[1], "base64url").toString("utf-8"));
+
+  for (const alg of ["none", "None", "NONE"]) {
+    await assert.rejects(verifyToken(unsignedToken({ alg, typ: "JWT" }, claims)), rejectedWith(/alg "none"/));
+  }
+  await assert.rejects(verifyToken(unsignedToken({ typ: "JWT" }, claims)), rejectedWith(/alg "none"/));
+});
+
+test("tokens signed with the issuer's public key as an HMAC secret are rejected", async () => {
+  const secret = Buffer.from(issuerPublicKey.export({ format: "pem", type: "spki" }) as string);
+  const token = await signToken({}, { alg: "HS256", key: secret });
+  await assert.rejects(verifyToken(token), rejectedWith(/Symmetric algorithm HS256/));
+});
+
+test("algorithms outside the issuer's allow-list are rejected", async () => {
+  // The test issuer only allows RS256, though RS384 would verify with its key
+  const token = await signToken({}, { alg: "RS384" });
+  await assert.rejects(verifyToken(token), rejectedWith(/Algorithm RS384 is not allowed/));
+});
+
+test("tokens from an issuer that isn't configured are rejected before any key is used", async () => {
+  const token = await signToken({ iss: "https://attacker.example" });
+  await assert.rejects(verifyToken(token), rejectedWith(/untrusted issuer/));
+  await assert.rejects(verifyToken(await signToken({ iss: undefined })), rejectedWith(/untrusted issuer/));
+});
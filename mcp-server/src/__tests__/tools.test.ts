@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getToolScopes } from "../mcp/tools";
+import { connect, principal } from "./helpers";
+
+test("tools/list hides the tools the caller has no scopes for", async () => {
+  const client = await connect(principal("alice", ["openid"]));
+
+  const { tools } = await client.listTools();
+  assert.deepEqual(tools.map((tool) => tool.name), ["calculator", "weather"]);
+  await client.close();
+});
+
+test("tools/list shows scoped tools to callers holding the scope", async () => {
+  const client = await connect(principal("alice", ["mcp:echo"]));
+
+  const { tools } = await client.listTools();
+  assert.deepEqual(tools.map((tool) => tool.name), ["echo", "calculator", "weather"]);
+  await client.close();
+});
+
+test("tools/call without the tool's scope fails with insufficient_scope naming it", async () => {
+  const client = await connect(principal("bob", ["openid"]));
+
+  await assert.rejects(
+    client.callTool({ name: "echo", arguments: { message: "hi" } }),
+    /insufficient_scope: Tool echo requires scope: mcp:echo/
+  );
+  await client.close();
+});
+
+test("tools/call with the tool's scope runs the tool", async () => {
+  const client = await connect(principal("carol", ["mcp:echo"]));
+
+  const result = await client.callTool({ name: "echo", arguments: { message: "hi" } });
+  assert.deepEqual(result.content, [{ type: "text", text: "Tool echo: hi" }]);
+  await client.close();
+});
+
+test("tools without required scopes can be called by any caller", async () => {
+  const client = await connect(principal("dave", ["openid"]));
+
+  const result = await client.callTool({ name: "calculator", arguments: { operation: "add", a: 1, b: 2 } });
+  assert.deepEqual(result.content, [{ type: "text", text: "Result of add 1 and 2: 3" }]);
+  await client.close();
+});
+
+test("tool scopes are advertised for scopes_supported", () => {
+  assert.deepEqual(getToolScopes(), ["mcp:echo"]);
+});
@@ -0,0 +1,50 @@
+import { Router } from "./server/router";
+import { protectedResourceHandler } from "./routes/protected-resource";
+import { sseConnectionHandler, sseMessagesHandler } from "./routes/sse";
+import { mcpRequestHandler } from "./routes/mcp";
+import { adminRoutes } from "./routes/admin";
+import { metricsHandler } from "./routes/metrics";
+import { livenessHandler, readinessHandler } from "./routes/health";
+import { simpleAuthMiddleware } from "./middleware/auth";
+import { ipRateLimitMiddleware, rateLimitMiddleware } from "./middleware/rateLimit";
+import { config } from "./config";
+import { createLogger } from "./utils/logger";
+
+const log = createLogger("server");
+
+/**
+ * Build the router serving every route of the server
+ */
+export function createRouter(): Router {
+  const router = new Router();
+
+  router.use(ipRateLimitMiddleware);
+  router.use((req, res, next) => simpleAuthMiddleware(req, res, next, true));
+  log.info("Using simplified auth middleware with token validation");
+  router.use(rateLimitMiddleware);
+  router.get("/.well-known/oauth-protected-resource*", protectedResourceHandler);
+
+  // SSE routes (require authentication)
+  router.get("/sse", sseConnectionHandler);
+  router.post("/messages*", sseMessagesHandler);
+
+  // Streamable HTTP endpoint (requires authentication)
+  router.all(/^\/mcp(\?|$)/, mcpRequestHandler);
+
+  // Health checks for the orchestrator (no authentication)
+  router.get("/ping", livenessHandler);
+  router.get("/healthz", livenessHandler);
+  router.get("/readyz", readinessHandler);
+
+  // Prometheus metrics (restricted by address or scrape token, not access tokens)
+  if (config.metrics.enabled) {
+    router.get("/metrics", metricsHandler);
+  }
+
+  // Admin API (requires the admin scope)
+  if (config.admin.enabled) {
+    router.group("/admin", adminRoutes);
+  }
+
+  return router;
+}
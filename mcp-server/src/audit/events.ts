@@ -0,0 +1,102 @@
+import { Principal } from "../auth/principal";
+
+// Bumped whenever a field is removed or changes meaning
+export const AUDIT_SCHEMA_VERSION = 1;
+
+// Who an event is about; never includes the token itself
+export interface AuditPrincipal {
+  subject: string;
+  clientId?: string;
+  issuer?: string;
+}
+
+// Fields shared by every audit event
+interface AuditEventBase {
+  schemaVersion: number;
+  // ISO 8601 time the event happened
+  timestamp: string;
+  // Links every request made on one MCP session
+  correlationId?: string;
+  // Identifies the HTTP request the event came from
+  requestId?: string;
+}
+
+export interface AuthSuccessEvent extends AuditEventBase {
+  type: "auth.success";
+  method: string;
+  path: string;
+  // How the token was presented (header, query or cookie) and with which scheme
+  tokenSource: string;
+  principal: AuditPrincipal;
+}
+
+export interface AuthFailureEvent extends AuditEventBase {
+  type: "auth.failure";
+  method: string;
+  path: string;
+  status: number;
+  // RFC 6750 error code, absent when no token was presented
+  error?: string;
+  reason: string;
+}
+
+export interface SessionOpenEvent extends AuditEventBase {
+  type: "session.open";
+  sessionId: string;
+  // Legacy SSE (/sse and /messages) or Streamable HTTP (/mcp)
+  transport: "sse" | "streamable-http";
+  principal?: AuditPrincipal;
+}
+
+export interface SessionCloseEvent extends AuditEventBase {
+  type: "session.close";
+  sessionId: string;
+  reason: "client_disconnected" | "token_expired" | "idle_timeout" | "terminated" | "revoked" | "server_closed";
+  durationMs: number;
+}
+
+export interface ToolCallEvent extends AuditEventBase {
+  type: "tool.call";
+  sessionId?: string;
+  tool: string;
+  // SHA-256 of the canonical JSON arguments, so calls can be matched without logging data
+  argsHash: string;
+  principal?: AuditPrincipal;
+  durationMs: number;
+  outcome: "success" | "error" | "denied" | "rate_limited";
+  reason?: string;
+}
+
+export interface AdminActionEvent extends AuditEventBase {
+  type: "admin.action";
+  // What was done, e.g. "sessions.terminate" or "denylist.add"
+  action: string;
+  method: string;
+  path: string;
+  principal: AuditPrincipal;
+  // What the action applied to, such as a session ID or deny list entry
+  target?: string;
+  outcome: "success" | "not_found" | "invalid" | "error";
+}
+
+export type AuditEvent =
+  | AuthSuccessEvent
+  | AuthFailureEvent
+  | SessionOpenEvent
+  | SessionCloseEvent
+  | ToolCallEvent
+  | AdminActionEvent;
+
+/**
+ * Reduce a principal to the fields that go into audit events
+ */
+export function toAuditPrincipal(principal: Principal | undefined): AuditPrincipal | undefined {
+  if (!principal) {
+    return undefined;
+  }
+  return {
+    subject: principal.subject,
+    clientId: principal.clientId,
+    issuer: principal.issuer,
+  };
+}
@@ -0,0 +1,116 @@
+import { createHash } from "node:crypto";
+import { AUDIT_SCHEMA_VERSION, AuditEvent } from "./events";
+import { AuditSink, RotatingFileAuditSink, StdoutAuditSink } from "./sinks";
+import { createLogger } from "../utils/logger";
+import { config } from "../config";
+
+const log = createLogger("audit");
+
+export * from "./events";
+export * from "./sinks";
+
+// Audit log configuration
+export interface AuditConfig {
+  // Sinks to write to: "stdout" and/or "file"
+  sinks: string[];
+  // File written by the "file" sink
+  file: string;
+  // Size at which the audit file is rotated
+  maxFileBytes: number;
+  // Rotated files kept next to the current one
+  maxFiles: number;
+}
+
+// Audit configuration
+const defaultConfig: AuditConfig = config.audit;
+
+// An event as reported by callers; the envelope fields are filled in here
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+export type AuditEventInput = DistributiveOmit<AuditEvent, "schemaVersion" | "timestamp">;
+
+// The sinks events are written to
+let activeSinks: AuditSink[] | null = null;
+
+/**
+ * Create the sinks selected by the audit configuration
+ */
+function createDefaultSinks(): AuditSink[] {
+  return defaultConfig.sinks.map((name) => {
+    switch (name) {
+      case "stdout":
+        return new StdoutAuditSink();
+      case "file":
+        return new RotatingFileAuditSink(
+          defaultConfig.file,
+          defaultConfig.maxFileBytes,
+          defaultConfig.maxFiles
+        );
+      default:
+        throw new Error(`Unknown audit sink: ${name}`);
+    }
+  });
+}
+
+function getAuditSinks(): AuditSink[] {
+  if (!activeSinks) {
+    activeSinks = createDefaultSinks();
+    log.info(`Audit sinks: ${activeSinks.map((sink) => sink.name).join(", ") || "(none)"}`);
+  }
+  return activeSinks;
+}
+
+/**
+ * Replace the sinks audit events are written to
+ */
+export function setAuditSinks(sinks: AuditSink[]): void {
+  activeSinks = sinks;
+}
+
+/**
+ * Add a sink alongside the configured ones
+ */
+export function addAuditSink(sink: AuditSink): void {
+  getAuditSinks().push(sink);
+}
+
+/**
+ * Record an audit event in every sink
+ *
+ * A failing sink is reported but never fails the request being audited.
+ */
+export function audit(event: AuditEventInput): void {
+  const record = {
+    schemaVersion: AUDIT_SCHEMA_VERSION,
+    timestamp: new Date().toISOString(),
+    ...event,
+  } as AuditEvent;
+
+  for (const sink of getAuditSinks()) {
+    try {
+      sink.write(record);
+    } catch (error) {
+      log.error(`Error writing audit event to ${sink.name}`, error);
+    }
+  }
+}
+
+/**
+ * Close every sink, e.g. on shutdown
+ */
+export function closeAuditSinks(): void {
+  for (const sink of activeSinks ?? []) {
+    sink.close?.();
+  }
+}
+
+/**
+ * Hash tool arguments with sorted keys, so equal arguments hash equally
+ */
+export function hashArguments(args: unknown): string {
+  const canonical = JSON.stringify(args ?? {}, (_key, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : value
+  );
+  return createHash("sha256").update(canonical).digest("hex");
+}
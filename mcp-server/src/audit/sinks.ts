@@ -0,0 +1,69 @@
+import fs from "node:fs";
+import path from "node:path";
+import { AuditEvent } from "./events";
+
+/**
+ * Destination for audit events
+ */
+export interface AuditSink {
+  // Short name used in logs
+  readonly name: string;
+  write(event: AuditEvent): void;
+  close?(): void;
+}
+
+/**
+ * Writes one JSON event per line to stdout
+ */
+export class StdoutAuditSink implements AuditSink {
+  readonly name = "stdout";
+
+  write(event: AuditEvent): void {
+    process.stdout.write(`${JSON.stringify(event)}\n`);
+  }
+}
+
+/**
+ * Appends JSON lines to a file, rotating it when it grows too large
+ *
+ * The current file is renamed to `<file>.1` (shifting older files up to
+ * `<file>.<maxFiles>`, the oldest being deleted) once it reaches maxBytes.
+ * Writes are synchronous so events are on disk before the request finishes.
+ */
+export class RotatingFileAuditSink implements AuditSink {
+  readonly name = "file";
+  private size: number;
+
+  constructor(
+    private file: string,
+    private maxBytes: number,
+    private maxFiles: number
+  ) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+  }
+
+  write(event: AuditEvent): void {
+    const line = `${JSON.stringify(event)}\n`;
+    if (this.size > 0 && this.size + Buffer.byteLength(line) > this.maxBytes) {
+      this.rotate();
+    }
+    fs.appendFileSync(this.file, line);
+    this.size += Buffer.byteLength(line);
+  }
+
+  private rotate(): void {
+    fs.rmSync(`${this.file}.${this.maxFiles}`, { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(`${this.file}.${index}`)) {
+        fs.renameSync(`${this.file}.${index}`, `${this.file}.${index + 1}`);
+      }
+    }
+    if (this.maxFiles > 0) {
+      fs.renameSync(this.file, `${this.file}.1`);
+    } else {
+      fs.rmSync(this.file, { force: true });
+    }
+    this.size = 0;
+  }
+}
@@ -0,0 +1,176 @@
+import { createHash, randomBytes } from "node:crypto";
+import {
+  calculateJwkThumbprint,
+  decodeProtectedHeader,
+  EmbeddedJWK,
+  errors,
+  JWK,
+  jwtVerify,
+} from "jose";
+import { AuthError } from "./errors";
+import { config } from "../config";
+
+// DPoP (RFC 9449) configuration
+export interface DpopConfig {
+  // Reject plain bearer tokens; every request must carry a DPoP proof
+  required: boolean;
+  // Require proofs to carry a server-provided nonce (RFC 9449 section 8)
+  requireNonce: boolean;
+  // Signature algorithms accepted for proofs
+  algorithms: string[];
+  // How old a proof's `iat` may be
+  maxAgeSeconds: number;
+  // Allowed clock difference with clients
+  clockSkewSeconds: number;
+  // How long a server nonce stays valid
+  nonceLifetimeMs: number;
+}
+
+// DPoP configuration
+export const dpopConfig: DpopConfig = config.dpop;
+
+// Proof IDs seen recently, with the time they can be forgotten
+const seenProofIds = new Map<string, number>();
+
+// Current and previous server nonce, rotated every nonceLifetimeMs
+let currentNonce = randomBytes(16).toString("base64url");
+let previousNonce: string | null = null;
+let nonceIssuedAt = Date.now();
+
+/**
+ * Get the nonce clients should put in their next proof
+ */
+export function getDpopNonce(): string {
+  if (Date.now() - nonceIssuedAt > dpopConfig.nonceLifetimeMs) {
+    previousNonce = currentNonce;
+    currentNonce = randomBytes(16).toString("base64url");
+    nonceIssuedAt = Date.now();
+  }
+  return currentNonce;
+}
+
+function proofError(message: string): AuthError {
+  return new AuthError("invalid_dpop_proof", message, { scheme: "DPoP" });
+}
+
+/**
+ * Remember a proof ID, failing if it was already used within its lifetime
+ */
+function checkReplay(jti: string): void {
+  const now = Date.now();
+  for (const [id, forgetAt] of seenProofIds) {
+    if (forgetAt > now) {
+      break;
+    }
+    seenProofIds.delete(id);
+  }
+
+  if (seenProofIds.has(jti)) {
+    throw proofError("DPoP proof has already been used");
+  }
+  seenProofIds.set(
+    jti,
+    now + (dpopConfig.maxAgeSeconds + dpopConfig.clockSkewSeconds) * 1000
+  );
+}
+
+/**
+ * Strip the query and fragment from a URL, as htu comparison requires
+ */
+function normalizeHtu(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify a DPoP proof for a request (RFC 9449 section 4.3)
+ *
+ * Checks the proof's signature with its embedded key, the request method
+ * and URL it was made for, its age, that it was not replayed, that it is
+ * bound to the presented access token (`ath`) and that its key matches the
+ * token's `cnf.jkt` confirmation.
+ */
+export async function verifyDpopProof(options: {
+  proof: string | string[] | undefined;
+  method: string;
+  url: string;
+  accessToken: string;
+  jkt: string | undefined;
+}): Promise<void> {
+  const { proof, method, url, accessToken, jkt } = options;
+
+  if (!proof || Array.isArray(proof) || proof.includes(",")) {
+    throw proofError("Exactly one DPoP proof header is required");
+  }
+
+  if (!jkt) {
+    throw new AuthError("invalid_token", "The access token is not DPoP-bound", {
+      scheme: "DPoP",
+    });
+  }
+
+  let header;
+  try {
+    header = decodeProtectedHeader(proof);
+  } catch {
+    throw proofError("DPoP proof is malformed");
+  }
+  if (!header.alg || !dpopConfig.algorithms.includes(header.alg)) {
+    throw proofError(`DPoP proof algorithm ${header.alg} is not accepted`);
+  }
+  if (!header.jwk || "d" in header.jwk) {
+    throw proofError("DPoP proof must embed a public key");
+  }
+
+  let payload;
+  try {
+    ({ payload } = await jwtVerify(proof, EmbeddedJWK, {
+      typ: "dpop+jwt",
+      algorithms: dpopConfig.algorithms,
+      maxTokenAge: dpopConfig.maxAgeSeconds,
+      clockTolerance: dpopConfig.clockSkewSeconds,
+      requiredClaims: ["jti", "htm", "htu", "iat"],
+    }));
+  } catch (error) {
+    if (error instanceof errors.JOSEError) {
+      throw proofError(`DPoP proof is invalid: ${error.message}`);
+    }
+    throw error;
+  }
+
+  if (payload.htm !== method) {
+    throw proofError("DPoP proof was created for a different HTTP method");
+  }
+  if (normalizeHtu(String(payload.htu)) !== normalizeHtu(url)) {
+    throw proofError("DPoP proof was created for a different URL");
+  }
+
+  const ath = createHash("sha256").update(accessToken).digest("base64url");
+  if (payload.ath !== ath) {
+    throw proofError("DPoP proof is not bound to the presented access token");
+  }
+
+  if (await calculateJwkThumbprint(header.jwk as JWK) !== jkt) {
+    throw new AuthError(
+      "invalid_token",
+      "The DPoP proof key does not match the access token's confirmation key",
+      { scheme: "DPoP" }
+    );
+  }
+
+  if (dpopConfig.requireNonce) {
+    const nonce = getDpopNonce();
+    if (payload.nonce !== nonce && (!previousNonce || payload.nonce !== previousNonce)) {
+      throw new AuthError("use_dpop_nonce", "A fresh DPoP nonce is required", {
+        scheme: "DPoP",
+        dpopNonce: nonce,
+      });
+    }
+  }
+
+  checkReplay(String(payload.jti));
+}
@@ -0,0 +1,161 @@
+import { errors } from "jose";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("auth");
+
+/**
+ * Bearer token error codes defined by RFC 6750 section 3.1, plus the DPoP
+ * error codes from RFC 9449 section 12.2
+ */
+export type BearerErrorCode =
+  | "invalid_request"
+  | "invalid_token"
+  | "insufficient_scope"
+  | "invalid_dpop_proof"
+  | "use_dpop_nonce";
+
+/**
+ * Authentication scheme a challenge is issued for
+ */
+export type AuthScheme = "Bearer" | "DPoP";
+
+/**
+ * Error raised when a request fails authentication or authorization.
+ *
+ * Carries everything needed to build the HTTP response: the status code,
+ * the RFC 6750 error code, the scheme the error applies to and, for scope
+ * failures, the scope that is needed.
+ */
+export class AuthError extends Error {
+  readonly status: number;
+  readonly code?: BearerErrorCode;
+  readonly scope?: string;
+  readonly scheme: AuthScheme;
+  // Nonce to send in a DPoP-Nonce header with the challenge
+  readonly dpopNonce?: string;
+
+  constructor(
+    code: BearerErrorCode | undefined,
+    message: string,
+    options: {
+      status?: number;
+      scope?: string;
+      scheme?: AuthScheme;
+      dpopNonce?: string;
+    } = {}
+  ) {
+    super(message);
+    this.name = "AuthError";
+    this.code = code;
+    this.scope = options.scope;
+    this.scheme = options.scheme ?? "Bearer";
+    this.dpopNonce = options.dpopNonce;
+    this.status = options.status ?? defaultStatus(code);
+  }
+}
+
+/**
+ * Default HTTP status for each error code (RFC 6750 section 3.1)
+ */
+function defaultStatus(code: BearerErrorCode | undefined): number {
+  switch (code) {
+    case "invalid_request":
+      return 400;
+    case "insufficient_scope":
+      return 403;
+    default:
+      return 401;
+  }
+}
+
+/**
+ * Error for a request that carries no access token at all.
+ *
+ * RFC 6750 says the challenge should not include an error code in this case.
+ */
+export function missingTokenError(): AuthError {
+  return new AuthError(undefined, "No access token provided");
+}
+
+/**
+ * Map any error thrown while verifying a token to an AuthError.
+ *
+ * This is the single place where verifier failures (jose and our own
+ * validators) are translated into status codes and error codes.
+ */
+export function toAuthError(error: unknown): AuthError {
+  if (error instanceof AuthError) {
+    return error;
+  }
+
+  // Anything else is a fault on our side (a bug, a network failure), not a
+  // bad token: answering invalid_token would make clients drop valid tokens
+  if (!(error instanceof errors.JOSEError)) {
+    log.error("Unexpected error while validating an access token", error);
+    return new AuthError(undefined, "Unable to validate the access token", { status: 500 });
+  }
+
+  switch (error.code) {
+    case errors.JWTExpired.code:
+      return new AuthError("invalid_token", "The access token expired");
+    case errors.JWTClaimValidationFailed.code:
+      return fromClaimValidationError(error as errors.JWTClaimValidationFailed);
+    case errors.JWSSignatureVerificationFailed.code:
+      return new AuthError(
+        "invalid_token",
+        "The access token signature is invalid"
+      );
+    case errors.JWKSNoMatchingKey.code:
+    case errors.JWKSMultipleMatchingKeys.code:
+      return new AuthError(
+        "invalid_token",
+        "The access token was signed with an unknown key"
+      );
+    case errors.JOSEAlgNotAllowed.code:
+    case errors.JOSENotSupported.code:
+      return new AuthError(
+        "invalid_token",
+        "The access token is signed with an unsupported algorithm"
+      );
+    case errors.JWKSTimeout.code:
+    case errors.JWKSInvalid.code:
+      return new AuthError(
+        undefined,
+        "Unable to retrieve signing keys to validate the access token",
+        { status: 503 }
+      );
+    case errors.JWSInvalid.code:
+    case errors.JWTInvalid.code:
+      return new AuthError("invalid_token", "The access token is malformed");
+  }
+
+  return new AuthError("invalid_token", "The access token is invalid");
+}
+
+/**
+ * Translate a failed claim check into a description of what was wrong
+ */
+function fromClaimValidationError(
+  error: errors.JWTClaimValidationFailed
+): AuthError {
+  switch (error.claim) {
+    case "aud":
+      return new AuthError(
+        "invalid_token",
+        "The access token was not issued for this resource"
+      );
+    case "iss":
+      return new AuthError(
+        "invalid_token",
+        "The access token was issued by an untrusted issuer"
+      );
+    case "nbf":
+    case "iat":
+      return new AuthError(
+        "invalid_token",
+        "The access token is not yet valid"
+      );
+  }
+
+  return new AuthError("invalid_token", "The access token is invalid");
+}
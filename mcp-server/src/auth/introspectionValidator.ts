@@ -0,0 +1,212 @@
+import { createHash } from "node:crypto";
+import jwt from "jsonwebtoken";
+import { z } from "zod";
+import { AuthError } from "./errors";
+import { TokenValidator } from "./validator";
+import { Principal, principalFromClaims } from "./principal";
+import { config } from "../config";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("introspection");
+
+// Token introspection configuration (RFC 7662)
+export interface IntrospectionConfig {
+  // The authorization server's introspection endpoint
+  endpoint: string;
+  // Credentials this resource server uses to call the endpoint
+  clientId: string;
+  clientSecret: string;
+  // Audience the token must be issued for; not checked when empty
+  audience: string;
+  // How long an inactive token is remembered
+  negativeCacheTtlMs: number;
+  // Upper bound for remembering an active token
+  maxCacheTtlMs: number;
+  // Timeout for a single introspection request
+  timeoutMs: number;
+}
+
+// Default introspection configuration
+const defaultConfig: IntrospectionConfig = {
+  ...config.introspection,
+  audience: config.introspection.audience ?? "",
+};
+
+// The members of an introspection response (RFC 7662 section 2.2) read
+// here; any others are kept as claims
+const introspectionResponseSchema = z.object({
+  active: z.boolean(),
+  sub: z.string().optional(),
+  username: z.string().optional(),
+  exp: z.number().optional(),
+  aud: z.union([z.string(), z.array(z.string())]).optional(),
+}).passthrough();
+
+type IntrospectionResponse = z.infer<typeof introspectionResponseSchema>;
+
+// Cap on remembered tokens so a flood of random tokens can't exhaust memory
+const MAX_CACHE_ENTRIES = 10000;
+
+interface CacheEntry {
+  // Set for active tokens
+  principal?: Principal;
+  // Set for inactive or unacceptable tokens
+  error?: AuthError;
+  // When this entry must be forgotten, in milliseconds since the epoch
+  expiresAt: number;
+}
+
+/**
+ * Validates opaque access tokens by asking the authorization server
+ *
+ * Both active and inactive results are cached (keyed by a hash of the
+ * token) so repeated requests with the same token don't hit the endpoint.
+ */
+export class IntrospectionTokenValidator implements TokenValidator {
+  readonly name = "introspection";
+  private config: IntrospectionConfig;
+  private cache = new Map<string, CacheEntry>();
+
+  constructor(config: Partial<IntrospectionConfig> = {}) {
+    this.config = { ...defaultConfig, ...config };
+    log.info("Token introspection configured", {
+      endpoint: this.config.endpoint,
+      clientId: this.config.clientId,
+      audience: this.config.audience || "(not checked)",
+    });
+  }
+
+  async validate(token: string): Promise<Principal> {
+    const key = createHash("sha256").update(token).digest("hex");
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      if (cached.error) {
+        throw cached.error;
+      }
+      return cached.principal!;
+    }
+    this.cache.delete(key);
+
+    const response = await this.introspect(token);
+    const now = Date.now();
+
+    let entry: CacheEntry;
+    try {
+      const principal = this.toPrincipal(response, token);
+      entry = {
+        principal,
+        expiresAt: Math.min(principal.expiresAt ?? Infinity, now + this.config.maxCacheTtlMs),
+      };
+    } catch (error) {
+      if (!(error instanceof AuthError)) {
+        throw error;
+      }
+      entry = {
+        error,
+        expiresAt: now + this.config.negativeCacheTtlMs,
+      };
+    }
+
+    this.remember(key, entry);
+    if (entry.error) {
+      throw entry.error;
+    }
+    return entry.principal!;
+  }
+
+  /**
+   * Call the introspection endpoint with client_secret_basic authentication
+   */
+  private async introspect(token: string): Promise<IntrospectionResponse> {
+    const credentials = Buffer.from(
+      `${encodeURIComponent(this.config.clientId)}:${encodeURIComponent(this.config.clientSecret)}`
+    ).toString("base64");
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Accept: "application/json",
+          Authorization: `Basic ${credentials}`,
+        },
+        body: new URLSearchParams({
+          token,
+          token_type_hint: "access_token",
+        }).toString(),
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+    } catch (error) {
+      log.error("Token introspection request failed", error);
+      throw new AuthError(undefined, "Unable to reach the token introspection endpoint", {
+        status: 503,
+      });
+    }
+
+    if (!response.ok) {
+      log.error(`Token introspection returned ${response.status}`);
+      throw new AuthError(undefined, "Token introspection failed", { status: 503 });
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch (error) {
+      log.error("Token introspection returned a malformed response", error);
+      throw new AuthError(undefined, "Token introspection failed", { status: 503 });
+    }
+
+    const parsed = introspectionResponseSchema.safeParse(body);
+    if (!parsed.success) {
+      log.error(`Token introspection returned an invalid response: ${parsed.error.issues[0].message}`);
+      throw new AuthError(undefined, "Token introspection failed", { status: 503 });
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Normalize an introspection response into a principal
+   */
+  private toPrincipal(response: IntrospectionResponse, token: string): Principal {
+    if (!response.active) {
+      throw new AuthError("invalid_token", "The access token is not active");
+    }
+
+    const { active: _active, ...claims } = response;
+    if (!claims.sub && claims.username) {
+      claims.sub = claims.username;
+    }
+
+    if (claims.exp && claims.exp * 1000 <= Date.now()) {
+      throw new AuthError("invalid_token", "The access token expired");
+    }
+
+    if (this.config.audience) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(this.config.audience)) {
+        throw new AuthError(
+          "invalid_token",
+          "The access token was not issued for this resource"
+        );
+      }
+    }
+
+    return principalFromClaims(claims as jwt.JwtPayload, token);
+  }
+
+  /**
+   * Store a cache entry, dropping the oldest entries when the cache is full
+   */
+  private remember(key: string, entry: CacheEntry): void {
+    while (this.cache.size >= MAX_CACHE_ENTRIES) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.cache.delete(oldest);
+    }
+    this.cache.set(key, entry);
+  }
+}
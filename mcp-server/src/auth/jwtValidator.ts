@@ -0,0 +1,18 @@
+import { TokenValidator } from "./validator";
+import { Principal, principalFromClaims } from "./principal";
+import { getIssuerConfig, verifyToken } from "./tokenValidator";
+
+/**
+ * Validates self-contained JWT access tokens against the issuer's JWKS
+ *
+ * Tokens from any trusted issuer are accepted; the principal is built with
+ * that issuer's claim mappings.
+ */
+export class JwtTokenValidator implements TokenValidator {
+  readonly name = "jwt";
+
+  async validate(token: string): Promise<Principal> {
+    const claims = await verifyToken(token);
+    return principalFromClaims(claims, token, getIssuerConfig(claims.iss)?.claimMappings);
+  }
+}
@@ -0,0 +1,212 @@
+import {
+  createLocalJWKSet,
+  errors,
+  JSONWebKeySet,
+  JWTVerifyGetKey,
+} from "jose";
+import { AuthError } from "./errors";
+import { jwksFetches } from "../metrics";
+import { config } from "../config";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("jwks");
+
+// JWKS refresh configuration
+export interface KeyManagerConfig {
+  // How often the key set is refreshed in the background
+  refreshIntervalMs: number;
+  // Minimum time between refreshes triggered by an unknown `kid`
+  refreshCooldownMs: number;
+  // How long last-known-good keys keep being served while refreshes fail
+  maxStalenessMs: number;
+  // Timeout for a single JWKS request
+  timeoutMs: number;
+}
+
+// Default JWKS refresh configuration
+const defaultConfig: KeyManagerConfig = config.jwks;
+
+/**
+ * Key set state reported to health checks
+ */
+export interface KeySetStatus {
+  // Where the keys come from (JWKS URL or local file)
+  source: string;
+  // Whether keys are available for verification
+  loaded: boolean;
+  // Number of keys in the current key set
+  keyCount: number;
+  // Key IDs in the current key set
+  keyIds: string[];
+  // Last successful load (ISO 8601)
+  lastRefreshAt?: string;
+  // Last failed refresh, if it is more recent than the last success
+  lastError?: string;
+  // True when the keys are older than the refresh interval because refreshes fail
+  stale: boolean;
+}
+
+/**
+ * Keeps a remote JWKS warm, refreshed and available through IdP outages
+ *
+ * Keys are fetched at startup and on a schedule. A token with an unknown
+ * `kid` triggers an early refresh (at most once per cooldown), which covers
+ * key rotation. If refreshing fails, the last-known-good keys keep being
+ * used until they are older than the configured maximum staleness.
+ */
+export class JwksKeyManager {
+  private config: KeyManagerConfig;
+  private keySet: JSONWebKeySet | null = null;
+  private resolver: JWTVerifyGetKey | null = null;
+  private lastRefreshAt = 0;
+  private lastAttemptAt = 0;
+  private lastError: string | null = null;
+  private inflight: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private jwksUri: string,
+    config: Partial<KeyManagerConfig> = {}
+  ) {
+    this.config = { ...defaultConfig, ...config };
+  }
+
+  /**
+   * Warm the key set and start refreshing it on a schedule
+   *
+   * Never rejects: a failed warm-up is retried on the next request or tick.
+   */
+  async start(): Promise<void> {
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.refresh().catch(() => {});
+      }, this.config.refreshIntervalMs);
+      this.timer.unref();
+    }
+    await this.refresh().catch(() => {});
+  }
+
+  /**
+   * Stop refreshing in the background
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fetch the key set, keeping the previous keys if the fetch fails
+   *
+   * Concurrent callers share a single request.
+   */
+  refresh(): Promise<void> {
+    if (!this.inflight) {
+      this.inflight = this.fetchKeySet().finally(() => {
+        this.inflight = null;
+      });
+    }
+    return this.inflight;
+  }
+
+  /**
+   * Key resolver for jose's jwtVerify
+   */
+  getKey: JWTVerifyGetKey = async (header, token) => {
+    // Rate limited like unknown-kid refreshes, so an IdP outage doesn't turn
+    // every incoming request into another JWKS request
+    if (!this.resolver && (this.inflight || this.isRefreshDue())) {
+      await this.refresh().catch(() => {});
+    }
+    this.assertUsable();
+
+    try {
+      return await this.resolver!(header, token);
+    } catch (error) {
+      if (!(error instanceof errors.JWKSNoMatchingKey) || !this.isRefreshDue()) {
+        throw error;
+      }
+
+      // Possibly a rotated key we haven't seen yet
+      log.info(`Unknown key ${header.kid} for ${this.jwksUri}, refreshing JWKS`);
+      await this.refresh().catch(() => {});
+      this.assertUsable();
+      return await this.resolver!(header, token);
+    }
+  };
+
+  /**
+   * Current key set state, for health checks
+   */
+  getStatus(): KeySetStatus {
+    const keys = this.keySet?.keys ?? [];
+    return {
+      source: this.jwksUri,
+      loaded: this.resolver !== null && !this.isTooStale(),
+      keyCount: keys.length,
+      keyIds: keys.map((key) => key.kid).filter((kid): kid is string => !!kid),
+      lastRefreshAt: this.lastRefreshAt ? new Date(this.lastRefreshAt).toISOString() : undefined,
+      lastError: this.lastError ?? undefined,
+      stale: this.lastRefreshAt > 0 &&
+        Date.now() - this.lastRefreshAt > this.config.refreshIntervalMs * 2,
+    };
+  }
+
+  /**
+   * Whether the refresh cooldown has passed since the last attempt
+   */
+  private isRefreshDue(): boolean {
+    return Date.now() - this.lastAttemptAt >= this.config.refreshCooldownMs;
+  }
+
+  private isTooStale(): boolean {
+    return Date.now() - this.lastRefreshAt > this.config.maxStalenessMs;
+  }
+
+  /**
+   * Fail with a 503 when there are no keys we are willing to use
+   */
+  private assertUsable(): void {
+    if (!this.resolver) {
+      throw new AuthError(undefined, "Unable to retrieve signing keys to validate the access token", {
+        status: 503,
+      });
+    }
+    if (this.isTooStale()) {
+      throw new AuthError(undefined, "Signing keys are out of date and cannot be refreshed", {
+        status: 503,
+      });
+    }
+  }
+
+  private async fetchKeySet(): Promise<void> {
+    this.lastAttemptAt = Date.now();
+    try {
+      const response = await fetch(this.jwksUri, {
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`JWKS request returned ${response.status}`);
+      }
+
+      const keySet = await response.json();
+      if (!keySet || !Array.isArray(keySet.keys)) {
+        throw new Error("JWKS response has no keys array");
+      }
+
+      this.keySet = keySet;
+      this.resolver = createLocalJWKSet(keySet);
+      this.lastRefreshAt = Date.now();
+      this.lastError = null;
+      jwksFetches.inc({ source: this.jwksUri, outcome: "success" });
+      log.info(`JWKS loaded from ${this.jwksUri}: ${keySet.keys.length} keys`);
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      jwksFetches.inc({ source: this.jwksUri, outcome: "error" });
+      log.error(`Error refreshing JWKS from ${this.jwksUri}`, this.lastError);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import jwt from "jsonwebtoken";
+import { AuthError } from "./errors";
+import { getTokenScopes } from "./scopes";
+import { ClaimMappings } from "./tokenValidator";
+
+/**
+ * The authenticated caller behind a request or session
+ */
+export interface Principal {
+  // Subject (`sub`) of the access token
+  subject: string;
+  // Email address of the subject, if the token carries one
+  email?: string;
+  // Groups the subject belongs to
+  groups: string[];
+  // OAuth client the token was issued to, if the token says so
+  clientId?: string;
+  // Authorization server that issued the token
+  issuer?: string;
+  // Scopes granted to the token
+  scopes: string[];
+  // Token expiry in milliseconds since the epoch
+  expiresAt?: number;
+  // The raw access token, for calling downstream services on the caller's behalf
+  token: string;
+  // The verified token claims
+  claims: jwt.JwtPayload;
+}
+
+/**
+ * Key identifying a subject across issuers
+ *
+ * Subjects are only unique per issuer (OIDC Core section 2), so two trusted
+ * issuers may use the same `sub` for different users.
+ */
+export function getPrincipalKey(principal: Pick<Principal, "issuer" | "subject">): string {
+  return `${principal.issuer ?? ""} ${principal.subject}`;
+}
+
+/**
+ * Whether two principals are the same subject of the same issuer
+ */
+export function isSamePrincipal(a: Principal, b: Principal): boolean {
+  return getPrincipalKey(a) === getPrincipalKey(b);
+}
+
+/**
+ * Build a principal from verified token claims
+ *
+ * Claim mappings let issuers that use non-standard claim names (e.g. `oid`
+ * for the subject or `roles` for scopes) produce the same principal shape.
+ * Tokens without a subject are rejected: sessions, limits and quotas are
+ * all keyed by it.
+ */
+export function principalFromClaims(
+  claims: jwt.JwtPayload,
+  token: string,
+  mappings: ClaimMappings = {}
+): Principal {
+  const audience = typeof claims.aud === "string" ? claims.aud : undefined;
+  const subject = mappings.subject ? claims[mappings.subject] : claims.sub;
+  const email = claims[mappings.email ?? "email"];
+  const groups = claims[mappings.groups ?? "groups"];
+  const clientId = mappings.clientId
+    ? claims[mappings.clientId]
+    : claims.azp ?? claims.client_id ?? audience;
+  if (subject === undefined || subject === null || String(subject) === "") {
+    throw new AuthError("invalid_token", "The access token has no subject");
+  }
+
+  return {
+    subject: String(subject),
+    email: typeof email === "string" ? email : undefined,
+    groups: Array.isArray(groups) ? groups.map(String) : typeof groups === "string" ? [groups] : [],
+    clientId: clientId ? String(clientId) : undefined,
+    issuer: claims.iss,
+    scopes: getTokenScopes(claims, mappings.scopes),
+    expiresAt: claims.exp ? claims.exp * 1000 : undefined,
+    token,
+    claims,
+  };
+}
@@ -0,0 +1,20 @@
+import { config } from "../config";
+import { normalizeResource } from "../utils/resource";
+
+export { normalizeResource } from "../utils/resource";
+
+// Canonical identifier of this resource server; tokens must name it in `aud`
+export const RESOURCE_URL = normalizeResource(config.resource.url);
+
+/**
+ * Path of the protected resource metadata document for this resource
+ *
+ * RFC 9728 section 3.1 inserts the well-known segment between the host and
+ * the resource's path, so a server mounted at https://host/mcp publishes
+ * its metadata at /.well-known/oauth-protected-resource/mcp.
+ */
+export function getResourceMetadataPath(resource: string = RESOURCE_URL): string {
+  const { pathname } = new URL(resource);
+  const suffix = pathname === "/" ? "" : pathname;
+  return `/.well-known/oauth-protected-resource${suffix}`;
+}
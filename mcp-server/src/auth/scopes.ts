@@ -0,0 +1,76 @@
+import jwt from "jsonwebtoken";
+import { AuthError } from "./errors";
+import { Principal } from "./principal";
+
+/**
+ * Read the granted scopes from a verified token payload
+ *
+ * Supports the RFC 9068 space-delimited `scope` claim as well as the `scp`
+ * claim (string or array) used by several identity providers, or a
+ * specific claim when the issuer maps scopes elsewhere.
+ */
+export function getTokenScopes(
+  claims: jwt.JwtPayload | undefined,
+  claimName?: string
+): string[] {
+  if (!claims) {
+    return [];
+  }
+
+  const raw = claimName ? claims[claimName] : claims.scope ?? claims.scp;
+  if (Array.isArray(raw)) {
+    return raw.map(String);
+  }
+  if (typeof raw === "string") {
+    return raw.split(" ").filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Check whether a claim value satisfies an expected value
+ *
+ * Array claims (e.g. `groups`) match when they contain the expected value.
+ */
+function claimMatches(actual: unknown, expected: string | number | boolean): boolean {
+  if (Array.isArray(actual)) {
+    return actual.includes(expected);
+  }
+  return actual === expected;
+}
+
+/**
+ * Check a tool's scope and claim requirements against the caller
+ *
+ * Returns an insufficient_scope AuthError naming what is missing, or null
+ * if the caller may use the tool.
+ */
+export function authorizeTool(
+  tool: McpTool,
+  principal: Principal | undefined
+): AuthError | null {
+  const grantedScopes = principal?.scopes ?? [];
+  const claims = principal?.claims;
+  const missingScopes = (tool.requiredScopes ?? []).filter(
+    (scope) => !grantedScopes.includes(scope)
+  );
+
+  if (missingScopes.length > 0) {
+    return new AuthError(
+      "insufficient_scope",
+      `Tool ${tool.name} requires scope: ${missingScopes.join(" ")}`,
+      { scope: (tool.requiredScopes ?? []).join(" ") }
+    );
+  }
+
+  for (const [claim, expected] of Object.entries(tool.requiredClaims ?? {})) {
+    if (!claims || !claimMatches(claims[claim], expected)) {
+      return new AuthError(
+        "insufficient_scope",
+        `Tool ${tool.name} requires claim ${claim}=${String(expected)}`
+      );
+    }
+  }
+
+  return null;
+}
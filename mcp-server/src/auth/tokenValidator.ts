@@ -1,132 +1,288 @@
+import fs from 'node:fs';
+import { createPublicKey } from 'node:crypto';
 import jwt from 'jsonwebtoken';
-import jwksRsa from 'jwks-rsa';
+import {
+  createLocalJWKSet,
+  decodeJwt,
+  decodeProtectedHeader,
+  exportJWK,
+  jwtVerify,
+  JSONWebKeySet,
+  JWSHeaderParameters,
+  JWTPayload,
+  JWTVerifyGetKey
+} from 'jose';
+import { AuthError } from './errors';
+import { JwksKeyManager, KeySetStatus } from './keyManager';
+import { config as serverConfig } from '../config';
+import { createLogger } from '../utils/logger';
 
-// JWT validation configuration
-interface JwtConfig {
+const log = createLogger('jwt');
+
+// Asymmetric signature algorithms an issuer may be configured with
+export const SUPPORTED_ALGORITHMS = [
+  'RS256', 'RS384', 'RS512',
+  'PS256', 'PS384', 'PS512',
+  'ES256', 'ES384', 'ES512',
+  'EdDSA'
+] as const;
+
+export type SigningAlgorithm = typeof SUPPORTED_ALGORITHMS[number];
+
+// Names of the claims a principal is built from, for issuers that differ
+// from the standard `sub` / `email` / `groups` / `azp` / `scope` claims
+export interface ClaimMappings {
+  subject?: string;
+  email?: string;
+  groups?: string;
+  clientId?: string;
+  scopes?: string;
+}
+
+// Trust configuration for a single authorization server
+export interface IssuerConfig {
+  // Expected `iss` claim
   issuer: string;
-  audience: string;
-  jwksUri: string;
+  // Accepted `aud` values; a token must match at least one. Defaults to
+  // this server's canonical resource URL (RFC 8707)
+  audiences: string[];
+  // Where the issuer publishes its signing keys; exactly one key source is used
+  jwksUri?: string;
+  // Local JSON Web Key Set file, for deployments without access to the issuer
+  jwksFile?: string;
+  // Local bundle of PEM public keys or certificates
+  pemFile?: string;
+  // Signature algorithms accepted from this issuer
+  algorithms: SigningAlgorithm[];
+  // URL advertised in protected resource metadata (defaults to the issuer)
+  authorizationServer?: string;
+  // Claim names to read the principal from
+  claimMappings?: ClaimMappings;
 }
 
-// Default JWT configuration
-const defaultConfig: JwtConfig = {
-  issuer: 'http://localhost:5556/dex',  // Dex issuer
-  audience: 'mcp-client',               // Client ID
-  jwksUri: 'http://localhost:5556/dex/keys' // Dex JWKS endpoint
-};
+/**
+ * Check an issuer configuration before trusting it
+ */
+function validateIssuerConfig(config: IssuerConfig): IssuerConfig {
+  if (!config.issuer || !config.audiences?.length) {
+    throw new Error('Issuer configurations need an issuer and audiences');
+  }
 
-// Allow configuring via environment variables
-if (process.env.JWT_ISSUER) {
-  defaultConfig.issuer = process.env.JWT_ISSUER;
-}
+  const keySources = [config.jwksUri, config.jwksFile, config.pemFile].filter(Boolean);
+  if (keySources.length !== 1) {
+    throw new Error(`Issuer ${config.issuer} needs exactly one of jwksUri, jwksFile or pemFile`);
+  }
 
-if (process.env.JWT_AUDIENCE) {
-  defaultConfig.audience = process.env.JWT_AUDIENCE;
+  for (const alg of config.algorithms) {
+    if (!SUPPORTED_ALGORITHMS.includes(alg)) {
+      throw new Error(`Issuer ${config.issuer} allows unsupported algorithm ${alg}`);
+    }
+  }
+  return config;
 }
 
-if (process.env.JWT_JWKS_URI) {
-  defaultConfig.jwksUri = process.env.JWT_JWKS_URI;
+/**
+ * Load the trusted issuers
+ *
+ * Several authorization servers can be trusted through the `issuers`
+ * setting (or `jwt.issuersFile`); otherwise the single `jwt` issuer is.
+ */
+function loadTrustedIssuers(): IssuerConfig[] {
+  return serverConfig.issuers.map((issuer) => validateIssuerConfig(issuer as IssuerConfig));
 }
 
+const trustedIssuers = new Map<string, IssuerConfig>(
+  loadTrustedIssuers().map((config) => [config.issuer, config])
+);
+
 // Log the configuration on startup
-console.log('JWT validation configured with:', {
-  issuer: defaultConfig.issuer,
-  audience: defaultConfig.audience,
-  jwksUri: defaultConfig.jwksUri
-});
+for (const config of trustedIssuers.values()) {
+  log.info('JWT validation configured', {
+    issuer: config.issuer,
+    audiences: config.audiences,
+    keys: config.jwksUri ?? config.jwksFile ?? config.pemFile,
+    algorithms: config.algorithms
+  });
+}
+
+/**
+ * Get all trusted issuer configurations
+ */
+export function getTrustedIssuers(): IssuerConfig[] {
+  return [...trustedIssuers.values()];
+}
+
+/**
+ * Get the configuration of a trusted issuer
+ */
+export function getIssuerConfig(issuer: string | undefined): IssuerConfig | undefined {
+  return issuer ? trustedIssuers.get(issuer) : undefined;
+}
+
+// Key resolvers, one per trusted issuer
+const keyResolvers = new Map<string, JWTVerifyGetKey>();
+
+// Key managers for remote key sets, one per JWKS URL
+const keyManagers = new Map<string, JwksKeyManager>();
 
-// Cache for JWKS client
-let jwksClientInstance: jwksRsa.JwksClient | null = null;
+// Keys loaded from local files, by issuer
+const localKeySets = new Map<string, JSONWebKeySet>();
 
 /**
- * Get or create the JWKS client
+ * Read a PEM bundle (public keys and/or certificates) as a JSON Web Key Set
  */
-function getJwksClient(jwksUri: string): jwksRsa.JwksClient {
-  if (!jwksClientInstance) {
-    jwksClientInstance = jwksRsa({
-      jwksUri,
-      cache: true,
-      rateLimit: true,
-      jwksRequestsPerMinute: 5,
-    });
+async function loadPemBundle(pemFile: string): Promise<JSONWebKeySet> {
+  const pem = fs.readFileSync(pemFile, 'utf-8');
+  const blocks = pem.match(/-----BEGIN (PUBLIC KEY|CERTIFICATE)-----[\s\S]+?-----END \1-----/g) ?? [];
+  if (blocks.length === 0) {
+    throw new Error(`No public keys or certificates found in ${pemFile}`);
   }
-  
-  // At this point, jwksClientInstance is guaranteed to be non-null
-  return jwksClientInstance;
+  const keys = await Promise.all(blocks.map((block) => exportJWK(createPublicKey(block))));
+  return { keys };
 }
 
 /**
- * Get the signing key for token verification
+ * Get or create the key manager for a remote JWKS URL
  */
-function getSigningKey(kid: string, jwksUri: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const client = getJwksClient(jwksUri);
-    client.getSigningKey(kid, (err, key) => {
-      if (err) {
-        console.error('Error getting signing key:', err);
-        return reject(err);
-      }
-      
-      if (!key) {
-        return reject(new Error('No signing key found'));
+function getKeyManager(jwksUri: string): JwksKeyManager {
+  let manager = keyManagers.get(jwksUri);
+  if (!manager) {
+    manager = new JwksKeyManager(jwksUri);
+    keyManagers.set(jwksUri, manager);
+  }
+  return manager;
+}
+
+/**
+ * Create the key resolver for an issuer's configured key source
+ */
+async function createKeyResolver(config: IssuerConfig): Promise<JWTVerifyGetKey> {
+  if (config.jwksUri) {
+    return getKeyManager(config.jwksUri).getKey;
+  }
+
+  const keySet: JSONWebKeySet = config.jwksFile
+    ? JSON.parse(fs.readFileSync(config.jwksFile, 'utf-8'))
+    : await loadPemBundle(config.pemFile!);
+  localKeySets.set(config.issuer, keySet);
+  return createLocalJWKSet(keySet);
+}
+
+/**
+ * Get or create the key resolver for an issuer
+ */
+async function getKeyResolver(config: IssuerConfig): Promise<JWTVerifyGetKey> {
+  let resolver = keyResolvers.get(config.issuer);
+  if (!resolver) {
+    resolver = await createKeyResolver(config);
+    keyResolvers.set(config.issuer, resolver);
+  }
+  return resolver;
+}
+
+/**
+ * Load every issuer's keys and start refreshing remote key sets
+ *
+ * Called at startup so the first requests don't wait for (or fail on) a
+ * JWKS fetch. Failures are logged and retried, never thrown.
+ */
+export async function startKeyManagers(): Promise<void> {
+  await Promise.all(
+    getTrustedIssuers().map(async (config) => {
+      try {
+        await getKeyResolver(config);
+        if (config.jwksUri) {
+          await getKeyManager(config.jwksUri).start();
+        }
+      } catch (error) {
+        log.error(`Error loading keys for issuer ${config.issuer}`, error);
       }
-      
-      const signingKey = key.getPublicKey();
-      resolve(signingKey);
-    });
+    })
+  );
+}
+
+/**
+ * Stop refreshing remote key sets
+ */
+export function stopKeyManagers(): void {
+  for (const manager of keyManagers.values()) {
+    manager.stop();
+  }
+}
+
+/**
+ * Key set state for every trusted issuer, for health checks
+ */
+export function getKeySetStatus(): Array<KeySetStatus & { issuer: string }> {
+  return getTrustedIssuers().map((config) => {
+    if (config.jwksUri) {
+      return { issuer: config.issuer, ...getKeyManager(config.jwksUri).getStatus() };
+    }
+    const keys = localKeySets.get(config.issuer)?.keys ?? [];
+    return {
+      issuer: config.issuer,
+      source: (config.jwksFile ?? config.pemFile)!,
+      loaded: localKeySets.has(config.issuer),
+      keyCount: keys.length,
+      keyIds: keys.map((key) => key.kid).filter((kid): kid is string => !!kid),
+      stale: false,
+    };
   });
 }
 
+/**
+ * Reject tokens whose header algorithm must never be accepted
+ *
+ * `none` and HMAC algorithms are rejected explicitly so a token can never be
+ * "verified" with no signature or with a public key used as an HMAC secret.
+ */
+function checkAlgorithm(alg: string | undefined, config: IssuerConfig): void {
+  if (!alg || alg.toLowerCase() === 'none') {
+    throw new AuthError('invalid_token', 'Unsigned access tokens (alg "none") are not accepted');
+  }
+  if (alg.startsWith('HS')) {
+    throw new AuthError('invalid_token', `Symmetric algorithm ${alg} is not accepted for access tokens`);
+  }
+  if (!config.algorithms.includes(alg as SigningAlgorithm)) {
+    throw new AuthError('invalid_token', `Algorithm ${alg} is not allowed for this issuer`);
+  }
+}
+
 /**
  * Verify a JWT token
+ *
+ * The issuer is picked from the token's (unverified) `iss` claim, and the
+ * token is then verified against that issuer's keys, audiences and
+ * algorithms only.
  */
-export async function verifyToken(
-  token: string, 
-  config: Partial<JwtConfig> = {}
-): Promise<jwt.JwtPayload> {
+export async function verifyToken(token: string): Promise<jwt.JwtPayload> {
   try {
-    // Merge default config with provided config
-    const { issuer, audience, jwksUri } = {
-      ...defaultConfig,
-      ...config
-    };
-
-    // Decode the token without verification to get the key ID (kid)
-    const decoded = jwt.decode(token, { complete: true });
-    if (!decoded || typeof decoded !== 'object') {
-      throw new Error('Invalid token format');
+    // Decode the token without verification to get the issuer and algorithm
+    let header: JWSHeaderParameters;
+    let payload: JWTPayload;
+    try {
+      header = decodeProtectedHeader(token) as JWSHeaderParameters;
+      payload = decodeJwt(token);
+    } catch {
+      throw new AuthError('invalid_token', 'The access token is malformed');
     }
 
-    // Get the key ID from the token header
-    const { kid } = decoded.header;
-    if (!kid) {
-      throw new Error('No key ID (kid) found in token header');
+    const issuerConfig = getIssuerConfig(payload.iss);
+    if (!issuerConfig) {
+      throw new AuthError('invalid_token', 'The access token was issued by an untrusted issuer');
     }
 
-    // Get the signing key from the JWKS endpoint
-    const signingKey = await getSigningKey(kid as string, jwksUri);
-
-    // Verify the token
-    return new Promise((resolve, reject) => {
-      jwt.verify(
-        token,
-        signingKey,
-        {
-          issuer,
-          audience,
-          algorithms: ['RS256']
-        },
-        (err, decoded) => {
-          if (err) {
-            console.error('Token verification failed:', err);
-            return reject(err);
-          }
-          resolve(decoded as jwt.JwtPayload);
-        }
-      );
+    checkAlgorithm(header.alg, issuerConfig);
+
+    // Verify the signature with the issuer's keys and check the claims
+    const { payload: verified } = await jwtVerify(token, await getKeyResolver(issuerConfig), {
+      issuer: issuerConfig.issuer,
+      audience: issuerConfig.audiences,
+      algorithms: issuerConfig.algorithms
     });
+    return verified as jwt.JwtPayload;
   } catch (error) {
-    console.error('Error verifying token:', error);
+    log.warn('Error verifying token', error);
     throw error;
   }
 }
@@ -142,7 +298,7 @@ export function decodeToken(token: string): jwt.JwtPayload {
     }
     return decoded as jwt.JwtPayload;
   } catch (error) {
-    console.error('Error decoding token:', error);
+    log.warn('Error decoding token', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
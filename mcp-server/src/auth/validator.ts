@@ -0,0 +1,55 @@
+import { Principal } from "./principal";
+import { JwtTokenValidator } from "./jwtValidator";
+import { IntrospectionTokenValidator } from "./introspectionValidator";
+import { config } from "../config";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("auth");
+
+/**
+ * Strategy for turning an access token into an authenticated principal
+ *
+ * Implementations throw (preferably an AuthError) when the token is not
+ * acceptable; see toAuthError for how failures become HTTP responses.
+ */
+export interface TokenValidator {
+  // Short name used in logs
+  readonly name: string;
+  validate(token: string): Promise<Principal>;
+}
+
+// The validator used by the auth middleware
+let activeValidator: TokenValidator | null = null;
+
+/**
+ * Create the validator selected by the `auth.validator` setting
+ */
+function createDefaultValidator(): TokenValidator {
+  const strategy = config.auth.validator;
+  switch (strategy) {
+    case "jwt":
+      return new JwtTokenValidator();
+    case "introspection":
+      return new IntrospectionTokenValidator();
+    default:
+      throw new Error(`Unknown TOKEN_VALIDATOR strategy: ${strategy}`);
+  }
+}
+
+/**
+ * Get the token validator used by the auth middleware
+ */
+export function getTokenValidator(): TokenValidator {
+  if (!activeValidator) {
+    activeValidator = createDefaultValidator();
+    log.info(`Token validation strategy: ${activeValidator.name}`);
+  }
+  return activeValidator;
+}
+
+/**
+ * Replace the token validator used by the auth middleware
+ */
+export function setTokenValidator(validator: TokenValidator): void {
+  activeValidator = validator;
+}
@@ -0,0 +1,362 @@
+import fs from "node:fs";
+import { z } from "zod";
+import { ConfigError, loadConfig, SettingSource } from "mcp-shared";
+import { normalizeResource } from "../utils/resource";
+
+export { ConfigError } from "mcp-shared";
+
+// The local Dex setup from docker-compose.yml
+const DEX_ISSUER = "http://localhost:5556/dex";
+const DEX_JWKS_URI = "http://localhost:5556/dex/keys";
+const DEX_AUTHORIZATION_SERVER = "http://localhost:5558";
+
+const url = z.string().url();
+
+const claimMappingsSchema = z.object({
+  subject: z.string().optional(),
+  email: z.string().optional(),
+  groups: z.string().optional(),
+  clientId: z.string().optional(),
+  scopes: z.string().optional(),
+}).strict();
+
+const issuerSchema = z.object({
+  issuer: z.string().min(1),
+  audiences: z.array(z.string()).min(1).optional(),
+  jwksUri: url.optional(),
+  jwksFile: z.string().optional(),
+  pemFile: z.string().optional(),
+  algorithms: z.array(z.string()).min(1).default(["RS256"]),
+  authorizationServer: url.optional(),
+  claimMappings: claimMappingsSchema.optional(),
+}).strict();
+
+const bucketSchema = z.object({
+  capacity: z.number().positive(),
+  refillPerSecond: z.number().nonnegative(),
+}).strict();
+
+const corsRouteSchema = z.object({
+  methods: z.array(z.string().toUpperCase()).min(1),
+  headers: z.array(z.string()),
+}).strict();
+
+const serverConfigSchema = z.object({
+  server: z.object({
+    port: z.number().int().min(0).max(65535).default(3001),
+    host: z.string().default("::"),
+  }).strict().default({}),
+
+  // This resource server and its protected resource metadata (RFC 9728)
+  resource: z.object({
+    url: url.default("http://localhost:3001"),
+    name: z.string().default("My MCP Server"),
+    documentation: url.optional(),
+    policyUri: url.optional(),
+    tosUri: url.optional(),
+    signingKeyFile: z.string().optional(),
+    signingAlgorithm: z.string().default("RS256"),
+  }).strict().default({}),
+
+  auth: z.object({
+    validator: z.enum(["jwt", "introspection"]).default("jwt"),
+    tokenMethods: z.array(z.enum(["header", "query", "cookie"])).min(1).default(["header", "cookie"]),
+    cookieName: z.string().default("access_token"),
+    scopes: z.array(z.string()).default(["openid"]),
+  }).strict().default({}),
+
+  // The single trusted issuer, used when `issuers` is not given
+  jwt: issuerSchema.extend({
+    issuer: z.string().min(1).default(DEX_ISSUER),
+    // JSON file with an array of issuers, replacing `issuers`
+    issuersFile: z.string().optional(),
+  }).strict().default({}),
+
+  // Every trusted issuer, for accepting tokens from several authorization servers
+  issuers: z.array(issuerSchema).optional(),
+
+  introspection: z.object({
+    endpoint: url.default("http://localhost:5556/dex/token/introspect"),
+    clientId: z.string().default("mcp-server"),
+    clientSecret: z.string().default(""),
+    audience: z.string().optional(),
+    negativeCacheTtlMs: z.number().nonnegative().default(60 * 1000),
+    maxCacheTtlMs: z.number().nonnegative().default(5 * 60 * 1000),
+    timeoutMs: z.number().positive().default(5000),
+  }).strict().default({}),
+
+  dpop: z.object({
+    required: z.boolean().default(false),
+    requireNonce: z.boolean().default(false),
+    algorithms: z.array(z.string()).min(1).default(["ES256", "ES384", "PS256", "RS256", "EdDSA"]),
+    maxAgeSeconds: z.number().positive().default(300),
+    clockSkewSeconds: z.number().nonnegative().default(60),
+    nonceLifetimeMs: z.number().positive().default(5 * 60 * 1000),
+  }).strict().default({}),
+
+  jwks: z.object({
+    refreshIntervalMs: z.number().positive().default(10 * 60 * 1000),
+    refreshCooldownMs: z.number().nonnegative().default(30 * 1000),
+    maxStalenessMs: z.number().positive().default(24 * 60 * 60 * 1000),
+    timeoutMs: z.number().positive().default(5000),
+  }).strict().default({}),
+
+  rateLimit: z.object({
+    enabled: z.boolean().default(true),
+    keyBy: z.enum(["subject", "clientId", "ip"]).default("subject"),
+    perIp: bucketSchema.default({ capacity: 120, refillPerSecond: 20 }),
+    routes: z.record(bucketSchema).default({
+      "/sse": { capacity: 5, refillPerSecond: 0.1 },
+      "/messages": { capacity: 60, refillPerSecond: 2 },
+      "/mcp": { capacity: 60, refillPerSecond: 2 },
+    }),
+    tools: z.record(bucketSchema).default({
+      "*": { capacity: 30, refillPerSecond: 1 },
+    }),
+    dailyToolCalls: z.number().int().nonnegative().default(5000),
+    quotaFile: z.string().default("data/quotas.json"),
+    tiers: z.array(z.object({
+      scope: z.string().optional(),
+      group: z.string().optional(),
+      multiplier: z.number().positive(),
+      dailyToolCalls: z.number().int().nonnegative().optional(),
+    }).strict()).default([]),
+  }).strict().default({}),
+
+  revocation: z.object({
+    store: z.enum(["memory", "file"]).default("file"),
+    file: z.string().default("data/revocations.json"),
+  }).strict().default({}),
+
+  // The /admin API for on-call engineers
+  admin: z.object({
+    enabled: z.boolean().default(true),
+    // Scope an access token must grant to use the admin API
+    scope: z.string().min(1).default("mcp:admin"),
+  }).strict().default({}),
+
+  // Prometheus metrics on /metrics
+  metrics: z.object({
+    enabled: z.boolean().default(true),
+    // Client addresses allowed to scrape; empty allows any
+    allowedIps: z.array(z.string().min(1)).default([]),
+    // Bearer token scrapers must present, if set
+    token: z.string().min(1).optional(),
+  }).strict().default({}),
+
+  // Readiness checks on /readyz
+  health: z.object({
+    metadataTimeoutMs: z.number().positive().default(3000),
+    metadataCacheMs: z.number().nonnegative().default(30 * 1000),
+    requireAuthorizationServer: z.boolean().default(false),
+  }).strict().default({}),
+
+  shutdown: z.object({
+    // How long in-flight tool calls may run after SIGTERM/SIGINT
+    drainTimeoutMs: z.number().nonnegative().default(10 * 1000),
+    // How long connections may take to end once sessions are closed
+    closeTimeoutMs: z.number().nonnegative().default(2 * 1000),
+  }).strict().default({}),
+
+  mcp: z.object({
+    name: z.string().default("my-mcp-server"),
+    version: z.string().default("1.0.0"),
+    // Names of the tools to offer
+    tools: z.array(z.string()).default(["calculator", "weather"]),
+  }).strict().default({}),
+
+  sessions: z.object({
+    idleTimeoutMs: z.number().nonnegative().default(30 * 60 * 1000),
+    sweepIntervalMs: z.number().positive().default(60 * 1000),
+    maxPerSubject: z.number().int().nonnegative().default(10),
+  }).strict().default({}),
+
+  // The Streamable HTTP transport on /mcp
+  streamableHttp: z.object({
+    // Answer requests with a JSON body instead of an event stream
+    jsonResponse: z.boolean().default(false),
+  }).strict().default({}),
+
+  audit: z.object({
+    sinks: z.array(z.enum(["stdout", "file"])).default(["stdout"]),
+    file: z.string().default("logs/audit.jsonl"),
+    maxFileBytes: z.number().int().positive().default(10 * 1024 * 1024),
+    maxFiles: z.number().int().nonnegative().default(5),
+  }).strict().default({}),
+
+  logging: z.object({
+    level: z.enum(["debug", "info", "warn", "error"]).default("info"),
+    format: z.enum(["pretty", "json"]).default("pretty"),
+    explainFlow: z.boolean().default(false),
+  }).strict().default({}),
+
+  cors: z.object({
+    allowedOrigins: z.array(z.string().min(1)).default(["http://localhost:3000"]),
+    allowCredentials: z.boolean().default(true),
+    exposedHeaders: z.array(z.string()).default(["WWW-Authenticate", "Mcp-Session-Id", "Retry-After", "X-Request-Id", "DPoP-Nonce"]),
+    maxAgeSeconds: z.number().int().nonnegative().default(600),
+    routes: z.record(corsRouteSchema).default({
+      "/.well-known/": { methods: ["GET"], headers: ["Accept"] },
+      "/sse": { methods: ["GET"], headers: ["Authorization", "DPoP", "Accept", "Cache-Control", "Last-Event-ID"] },
+      "/messages": { methods: ["POST"], headers: ["Authorization", "DPoP", "Content-Type", "Accept"] },
+      "/mcp": {
+        methods: ["GET", "POST", "DELETE"],
+        headers: ["Authorization", "DPoP", "Content-Type", "Accept", "Mcp-Session-Id", "Last-Event-ID"],
+      },
+      "*": { methods: ["GET", "POST"], headers: ["Authorization", "DPoP", "Content-Type", "Accept"] },
+    }),
+  }).strict().default({}),
+}).strict();
+
+type RawServerConfig = z.infer<typeof serverConfigSchema>;
+type IssuerSettings = z.infer<typeof issuerSchema>;
+
+export type ServerConfig = RawServerConfig & {
+  // Resolved list of trusted issuers, always non-empty
+  issuers: Array<IssuerSettings & { audiences: string[] }>;
+};
+
+// Settings that can be given as environment variables or flags
+const sources: SettingSource[] = [
+  { path: "server.port", env: "PORT", flag: "port", type: "number" },
+  { path: "server.host", env: "HOST", flag: "host", type: "string" },
+  { path: "resource.url", env: "MCP_RESOURCE_URL", flag: "resource-url", type: "string" },
+  { path: "resource.name", env: "RESOURCE_NAME", type: "string" },
+  { path: "resource.documentation", env: "RESOURCE_DOCUMENTATION", type: "string" },
+  { path: "resource.policyUri", env: "RESOURCE_POLICY_URI", type: "string" },
+  { path: "resource.tosUri", env: "RESOURCE_TOS_URI", type: "string" },
+  { path: "resource.signingKeyFile", env: "RESOURCE_METADATA_SIGNING_KEY_FILE", type: "string" },
+  { path: "resource.signingAlgorithm", env: "RESOURCE_METADATA_SIGNING_ALG", type: "string" },
+  { path: "auth.validator", env: "TOKEN_VALIDATOR", flag: "token-validator", type: "string" },
+  { path: "auth.tokenMethods", env: "TOKEN_METHODS", type: "list" },
+  { path: "jwt.issuer", env: "JWT_ISSUER", flag: "issuer", type: "string" },
+  { path: "jwt.audiences", env: "JWT_AUDIENCE", flag: "audience", type: "list" },
+  { path: "jwt.jwksUri", env: "JWT_JWKS_URI", flag: "jwks-uri", type: "string" },
+  { path: "jwt.jwksFile", env: "JWT_JWKS_FILE", type: "string" },
+  { path: "jwt.pemFile", env: "JWT_PEM_FILE", type: "string" },
+  { path: "jwt.algorithms", env: "JWT_ALGORITHMS", type: "list" },
+  { path: "jwt.authorizationServer", env: "JWT_AUTHORIZATION_SERVER", flag: "authorization-server", type: "string" },
+  { path: "jwt.issuersFile", env: "JWT_ISSUERS_FILE", type: "string" },
+  { path: "introspection.endpoint", env: "INTROSPECTION_ENDPOINT", type: "string" },
+  { path: "introspection.clientId", env: "INTROSPECTION_CLIENT_ID", type: "string" },
+  { path: "introspection.clientSecret", env: "INTROSPECTION_CLIENT_SECRET", type: "string" },
+  { path: "introspection.audience", env: "INTROSPECTION_AUDIENCE", type: "string" },
+  { path: "dpop.required", env: "DPOP_REQUIRED", type: "boolean" },
+  { path: "dpop.requireNonce", env: "DPOP_REQUIRE_NONCE", type: "boolean" },
+  { path: "dpop.algorithms", env: "DPOP_ALGORITHMS", type: "list" },
+  { path: "jwks.refreshIntervalMs", env: "JWKS_REFRESH_INTERVAL_MS", type: "number" },
+  { path: "jwks.refreshCooldownMs", env: "JWKS_REFRESH_COOLDOWN_MS", type: "number" },
+  { path: "jwks.maxStalenessMs", env: "JWKS_MAX_STALENESS_MS", type: "number" },
+  { path: "rateLimit.enabled", env: "RATE_LIMIT_ENABLED", type: "boolean" },
+  { path: "rateLimit.quotaFile", env: "RATE_LIMIT_QUOTA_FILE", type: "string" },
+  { path: "revocation.store", env: "REVOCATION_STORE", type: "string" },
+  { path: "revocation.file", env: "REVOCATION_FILE", type: "string" },
+  { path: "admin.enabled", env: "ADMIN_ENABLED", type: "boolean" },
+  { path: "admin.scope", env: "ADMIN_SCOPE", type: "string" },
+  { path: "metrics.enabled", env: "METRICS_ENABLED", type: "boolean" },
+  { path: "metrics.allowedIps", env: "METRICS_ALLOWED_IPS", type: "list" },
+  { path: "metrics.token", env: "METRICS_TOKEN", type: "string" },
+  { path: "health.requireAuthorizationServer", env: "HEALTH_REQUIRE_AUTHORIZATION_SERVER", type: "boolean" },
+  { path: "shutdown.drainTimeoutMs", env: "SHUTDOWN_DRAIN_TIMEOUT_MS", type: "number" },
+  { path: "mcp.tools", env: "MCP_TOOLS", type: "list" },
+  { path: "sessions.idleTimeoutMs", env: "SESSION_IDLE_TIMEOUT_MS", type: "number" },
+  { path: "sessions.maxPerSubject", env: "SESSION_MAX_PER_SUBJECT", type: "number" },
+  { path: "streamableHttp.jsonResponse", env: "MCP_JSON_RESPONSE", type: "boolean" },
+  { path: "audit.sinks", env: "AUDIT_SINKS", type: "list" },
+  { path: "audit.file", env: "AUDIT_FILE", type: "string" },
+  { path: "audit.maxFileBytes", env: "AUDIT_FILE_MAX_BYTES", type: "number" },
+  { path: "audit.maxFiles", env: "AUDIT_FILE_MAX_FILES", type: "number" },
+  { path: "logging.level", env: "LOG_LEVEL", flag: "log-level", type: "string" },
+  { path: "logging.format", env: "LOG_FORMAT", flag: "log-format", type: "string" },
+  { path: "logging.explainFlow", env: "LOG_EXPLAIN_FLOW", flag: "explain-flow", type: "boolean" },
+  { path: "cors.allowedOrigins", env: "CORS_ALLOWED_ORIGINS", flag: "cors-origins", type: "list" },
+];
+
+/**
+ * Bring an audience that is a URL into its canonical resource form; other
+ * audiences (such as OAuth client IDs) are left as they are
+ */
+function normalizeAudience(audience: string, setting: string): string {
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(audience)) {
+    return audience;
+  }
+  try {
+    return normalizeResource(audience);
+  } catch (error) {
+    throw new ConfigError(`${setting}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Fill in defaults that depend on other settings
+ *
+ * The Dex key source and authorization server are only defaulted while
+ * the issuer is the local Dex one, and audiences default to this server's
+ * canonical resource URL (RFC 8707). Audiences that are URLs are compared
+ * in their canonical form, the same one clients send as `resource`.
+ */
+function resolve(raw: RawServerConfig, origins: Map<string, string>): ServerConfig {
+  const { issuersFile, ...jwt } = raw.jwt;
+  const resourceUrl = normalizeAudience(raw.resource.url, "resource.url");
+  const usingDex = !origins.has("jwt.issuer");
+  const hasKeySource = jwt.jwksUri || jwt.jwksFile || jwt.pemFile;
+
+  let issuers: IssuerSettings[] = raw.issuers ?? [{
+    ...jwt,
+    jwksUri: hasKeySource ? jwt.jwksUri : DEX_JWKS_URI,
+    authorizationServer: jwt.authorizationServer ?? (usingDex ? DEX_AUTHORIZATION_SERVER : undefined),
+  }];
+
+  if (issuersFile) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(issuersFile, "utf-8"));
+    } catch (error) {
+      throw new ConfigError(
+        `Unable to read issuers file ${issuersFile}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    const result = z.array(issuerSchema).min(1).safeParse(parsed);
+    if (!result.success) {
+      const lines = result.error.issues.map((issue) => `  - ${issue.path.join(".")}: ${issue.message}`);
+      throw new ConfigError(`Invalid issuers file ${issuersFile}:\n${lines.join("\n")}`);
+    }
+    issuers = result.data;
+  }
+
+  return {
+    ...raw,
+    introspection: {
+      ...raw.introspection,
+      audience: raw.introspection.audience !== undefined
+        ? normalizeAudience(raw.introspection.audience, "introspection.audience")
+        : resourceUrl,
+    },
+    issuers: issuers.map((issuer, index) => ({
+      ...issuer,
+      audiences: issuer.audiences
+        ? issuer.audiences.map((audience) => normalizeAudience(audience, `issuers.${index}.audiences`))
+        : [resourceUrl],
+    })),
+  };
+}
+
+/**
+ * Load and validate the server configuration, exiting with a readable
+ * message when it is invalid
+ */
+function loadServerConfig(): ServerConfig {
+  try {
+    const { config, origins } = loadConfig(serverConfigSchema, sources, { fileEnv: "MCP_SERVER_CONFIG" });
+    return resolve(config, origins);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      process.stderr.write(`${error.message}\n`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+// The server configuration, loaded once at startup
+export const config: ServerConfig = loadServerConfig();
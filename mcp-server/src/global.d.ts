@@ -1,19 +1,44 @@
 import { z } from "zod";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { Principal } from "./auth/principal";
 
 /**
  * Interface for MCP tools
  */
 declare global {
+  /**
+   * Request context passed to tool handlers
+   */
+  interface McpToolExtra extends RequestHandlerExtra {
+    // The authenticated caller of the session the request arrived on
+    authInfo?: Principal;
+  }
+
   interface McpTool {
     name: string;
     schema: Record<string, z.ZodType>;
+    // Scopes the caller's token must grant to list or call this tool
+    requiredScopes?: string[];
+    // Claims the caller's token must carry; array claims must contain the value
+    requiredClaims?: Record<string, string | number | boolean>;
     handler: (
       args: Record<string, any>,
-      extra: any
+      extra: McpToolExtra
     ) => Promise<{
       content: Array<{ type: "text"; text: string }>;
     }>;
   }
 }
 
+/**
+ * Authenticated principal attached to the request by the auth middleware
+ */
+declare module "http" {
+  interface IncomingMessage {
+    auth?: Principal;
+    // Unique ID of this request, echoed in the X-Request-Id response header
+    requestId?: string;
+  }
+}
+
 export {};
@@ -0,0 +1,161 @@
+import { getKeySetStatus, getTrustedIssuers } from "../auth/tokenValidator";
+import { KeySetStatus } from "../auth/keyManager";
+import { getToolCatalog } from "../mcp/tools";
+import { sessionManager, sessionConfig } from "../mcp/sessionManager";
+import { createLogger } from "../utils/logger";
+import { config } from "../config";
+
+const log = createLogger("health");
+
+// Health check configuration
+export interface HealthConfig {
+  // Timeout for one authorization server metadata request
+  metadataTimeoutMs: number;
+  // How long a metadata check result is reused
+  metadataCacheMs: number;
+  // Whether an unreachable authorization server makes the server not ready
+  requireAuthorizationServer: boolean;
+}
+
+// Health check configuration
+export const healthConfig: HealthConfig = config.health;
+
+// Result of probing one authorization server's metadata document
+export interface AuthorizationServerStatus {
+  url: string;
+  reachable: boolean;
+  // When the metadata was last requested (ISO 8601)
+  checkedAt: string;
+  error?: string;
+}
+
+// Machine-readable readiness report
+export interface ReadinessReport {
+  status: "ready" | "not_ready";
+  // Why the server is not ready, empty when it is
+  reasons: string[];
+  checks: {
+    jwks: Array<KeySetStatus & { issuer: string }>;
+    authorizationServers: AuthorizationServerStatus[];
+    tools: { registered: string[] };
+    sessions: {
+      active: number;
+      byTransport: Record<string, number>;
+      maxPerSubject: number;
+    };
+  };
+}
+
+/**
+ * Checks that authorization server metadata (RFC 8414) can be fetched
+ *
+ * Results are cached for `metadataCacheMs` so frequent readiness probes
+ * don't turn into a request to the authorization server each.
+ */
+export class MetadataProbe {
+  private results = new Map<string, { status: AuthorizationServerStatus; expiresAt: number }>();
+  private inflight = new Map<string, Promise<AuthorizationServerStatus>>();
+
+  constructor(private config: HealthConfig) {}
+
+  /**
+   * Status of an authorization server, fetching its metadata when the
+   * cached result is out of date
+   *
+   * Concurrent callers share a single request.
+   */
+  check(url: string): Promise<AuthorizationServerStatus> {
+    const cached = this.results.get(url);
+    if (cached && cached.expiresAt > Date.now()) {
+      return Promise.resolve(cached.status);
+    }
+
+    let pending = this.inflight.get(url);
+    if (!pending) {
+      pending = this.fetchMetadata(url).finally(() => {
+        this.inflight.delete(url);
+      });
+      this.inflight.set(url, pending);
+    }
+    return pending;
+  }
+
+  private async fetchMetadata(url: string): Promise<AuthorizationServerStatus> {
+    const status: AuthorizationServerStatus = {
+      url,
+      reachable: false,
+      checkedAt: new Date().toISOString(),
+    };
+
+    try {
+      const response = await fetch(`${url.replace(/\/+$/, "")}/.well-known/oauth-authorization-server`, {
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.timeout(this.config.metadataTimeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`Metadata request returned ${response.status}`);
+      }
+      await response.json();
+      status.reachable = true;
+    } catch (error) {
+      status.error = error instanceof Error ? error.message : String(error);
+      log.warn(`Authorization server ${url} is unreachable`, status.error);
+    }
+
+    this.results.set(url, { status, expiresAt: Date.now() + this.config.metadataCacheMs });
+    return status;
+  }
+}
+
+const metadataProbe = new MetadataProbe(healthConfig);
+
+/**
+ * Check whether the server can take traffic
+ *
+ * The server is ready when every issuer's signing keys are loaded and at
+ * least one tool is registered, and, if configured, every authorization
+ * server's metadata can be fetched.
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const jwks = getKeySetStatus();
+  const authorizationServers = await Promise.all(
+    [...new Set(getTrustedIssuers().map((issuer) => issuer.authorizationServer ?? issuer.issuer))]
+      .map((url) => metadataProbe.check(url))
+  );
+  const registered = getToolCatalog().filter((tool) => tool.enabled).map((tool) => tool.name);
+  const sessions = sessionManager.list();
+
+  const reasons: string[] = [];
+  if (!sessionManager.isAccepting()) {
+    reasons.push("The server is shutting down");
+  }
+  for (const keySet of jwks.filter((status) => !status.loaded)) {
+    reasons.push(`Signing keys for ${keySet.issuer} are not loaded`);
+  }
+  if (healthConfig.requireAuthorizationServer) {
+    for (const server of authorizationServers.filter((status) => !status.reachable)) {
+      reasons.push(`Authorization server ${server.url} is unreachable`);
+    }
+  }
+  if (registered.length === 0) {
+    reasons.push("No tools are registered");
+  }
+
+  return {
+    status: reasons.length === 0 ? "ready" : "not_ready",
+    reasons,
+    checks: {
+      jwks,
+      authorizationServers,
+      tools: { registered },
+      sessions: {
+        active: sessions.length,
+        byTransport: {
+          sse: sessions.filter((session) => session.transport === "sse").length,
+          "streamable-http": sessions.filter((session) => session.transport === "streamable-http").length,
+        },
+        maxPerSubject: sessionConfig.maxPerSubject,
+      },
+    },
+  };
+}
@@ -3,35 +3,35 @@
  *
  */
 
-import { Router } from "./server/router";
+import { createRouter } from "./app";
 import { HttpServer } from "./server/http-server";
-import { sseConnectionHandler, sseMessagesHandler } from "./routes/sse";
-import { protectedResourceHandler } from "./routes/protected-resource";
-import { initializeMcpServer } from "./mcp";
-import { simpleAuthMiddleware, authMiddleware } from "./middleware/auth";
+import { handleShutdownSignals } from "./server/shutdown";
+import { startKeyManagers } from "./auth/tokenValidator";
+import { getRevocationList } from "./revocation";
+import { config } from "./config";
+import { createLogger } from "./utils/logger";
 
-// Initialize MCP server with tools
-initializeMcpServer();
+const log = createLogger("server");
 
-// Configure routes
-const router = new Router();
+// Warm the signing keys so the first requests don't wait on the IdP
+startKeyManagers();
 
-router.use((req, res, next) => simpleAuthMiddleware(req, res, next, true));
-console.log("Using simplified auth middleware with token validation");
-router.get("/.well-known/oauth-protected-resource", protectedResourceHandler);
+// Load the deny list up front: if it can't be read, revoked tokens would get in
+try {
+  getRevocationList();
+} catch (error) {
+  log.error("Unable to load the deny list", error);
+  process.exit(1);
+}
 
-// SSE routes (require authentication)
-router.get("/sse", sseConnectionHandler);
-router.post("/messages*", sseMessagesHandler);
+// Configure routes
+const router = createRouter();
 
 // Start the server
 const server = new HttpServer(router);
-server.start();
+server.start(config.server.port, config.server.host);
 
-// Handle process termination
-process.on("SIGINT", () => {
-  console.log("Server shutting down...");
-  process.exit(0);
-});
+// Drain sessions and in-flight tool calls on SIGTERM/SIGINT
+handleShutdownSignals(server);
 
-console.log("Server initialized and routes configured");
+log.info("Server initialized and routes configured");
@@ -0,0 +1,41 @@
+import { config } from "../config";
+
+// A token bucket: up to `capacity` requests at once, refilled continuously
+export interface BucketLimit {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+// Higher (or lower) limits for callers with a given scope or group
+export interface LimitTier {
+  // Applies to tokens granting this scope
+  scope?: string;
+  // Applies to subjects in this group
+  group?: string;
+  // Factor applied to every bucket's capacity and refill rate
+  multiplier: number;
+  // Replaces the default daily tool-call quota
+  dailyToolCalls?: number;
+}
+
+// Rate limit and quota configuration
+export interface RateLimitConfig {
+  enabled: boolean;
+  // What identifies a caller; unauthenticated requests always use the IP
+  keyBy: "subject" | "clientId" | "ip";
+  // Bucket for every request from one address, checked before authentication
+  perIp: BucketLimit;
+  // Buckets by path prefix, e.g. "/sse" or "/messages"
+  routes: Record<string, BucketLimit>;
+  // Buckets by tool name; "*" applies to tools without their own entry
+  tools: Record<string, BucketLimit>;
+  // Tool calls allowed per caller per UTC day; 0 disables the quota
+  dailyToolCalls: number;
+  // Where daily quota usage is persisted
+  quotaFile: string;
+  // Per scope or group overrides, the most generous matching tier wins
+  tiers: LimitTier[];
+}
+
+// Rate limit configuration
+export const rateLimitConfig: RateLimitConfig = config.rateLimit;
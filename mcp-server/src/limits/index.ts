@@ -0,0 +1,166 @@
+import { getPrincipalKey, Principal } from "../auth/principal";
+import { BucketLimit, rateLimitConfig } from "./config";
+import { FileQuotaStore } from "./quotaStore";
+import { TokenBucketLimiter } from "./tokenBucket";
+
+export { rateLimitConfig } from "./config";
+
+/**
+ * Error raised when a caller exceeds a rate limit or quota
+ */
+export class RateLimitError extends Error {
+  // Seconds the caller should wait before retrying
+  readonly retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message);
+    this.name = "RateLimitError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+const limiter = new TokenBucketLimiter();
+let quotaStore: FileQuotaStore | null = null;
+
+function getQuotaStore(): FileQuotaStore {
+  if (!quotaStore) {
+    quotaStore = new FileQuotaStore(rateLimitConfig.quotaFile);
+  }
+  return quotaStore;
+}
+
+/**
+ * Identify the caller limits are counted against
+ *
+ * Falls back to the given key (usually the client IP) when there is no
+ * authenticated principal or it lacks the configured attribute.
+ */
+export function getCallerKey(principal: Principal | undefined, fallback: string): string {
+  switch (rateLimitConfig.keyBy) {
+    case "subject":
+      return principal?.subject ? `sub:${getPrincipalKey(principal)}` : fallback;
+    case "clientId":
+      return principal?.clientId ? `client:${principal.clientId}` : fallback;
+    default:
+      return fallback;
+  }
+}
+
+/**
+ * Find the most generous tier matching the caller's scopes and groups
+ */
+function resolveTier(principal: Principal | undefined): { multiplier: number; dailyToolCalls: number } {
+  let multiplier = 1;
+  let dailyToolCalls = rateLimitConfig.dailyToolCalls;
+
+  for (const tier of rateLimitConfig.tiers) {
+    const matches =
+      (tier.scope !== undefined && principal?.scopes.includes(tier.scope)) ||
+      (tier.group !== undefined && principal?.groups.includes(tier.group));
+    if (!matches) {
+      continue;
+    }
+    multiplier = Math.max(multiplier, tier.multiplier);
+    if (tier.dailyToolCalls !== undefined) {
+      dailyToolCalls = dailyToolCalls === 0 || tier.dailyToolCalls === 0
+        ? 0
+        : Math.max(dailyToolCalls, tier.dailyToolCalls);
+    }
+  }
+  return { multiplier, dailyToolCalls };
+}
+
+function scale(limit: BucketLimit, multiplier: number): BucketLimit {
+  return {
+    capacity: limit.capacity * multiplier,
+    refillPerSecond: limit.refillPerSecond * multiplier,
+  };
+}
+
+/**
+ * Check the bucket shared by every request from an address
+ *
+ * Runs before authentication, so floods of bad tokens are turned away
+ * before each one is verified.
+ */
+export function checkIpLimit(ip: string): RateLimitError | null {
+  if (!rateLimitConfig.enabled) {
+    return null;
+  }
+
+  const retryAfter = limiter.take(`ip:${ip}`, rateLimitConfig.perIp);
+  return retryAfter
+    ? new RateLimitError("Too many requests from this address", retryAfter)
+    : null;
+}
+
+/**
+ * Check the bucket for the route a request is addressed to
+ *
+ * Routes are matched by path prefix; requests to unlisted routes are not limited.
+ */
+export function checkRouteLimit(
+  path: string,
+  principal: Principal | undefined,
+  callerKey: string
+): RateLimitError | null {
+  if (!rateLimitConfig.enabled) {
+    return null;
+  }
+
+  const route = Object.keys(rateLimitConfig.routes).find((prefix) => path.startsWith(prefix));
+  if (!route) {
+    return null;
+  }
+
+  const { multiplier } = resolveTier(principal);
+  const retryAfter = limiter.take(
+    `route:${route}:${callerKey}`,
+    scale(rateLimitConfig.routes[route], multiplier)
+  );
+  return retryAfter
+    ? new RateLimitError(`Too many requests to ${route}`, retryAfter)
+    : null;
+}
+
+/**
+ * Check the tool's bucket and the caller's daily tool-call quota
+ *
+ * The quota is only counted once the call is allowed by the bucket.
+ */
+export function checkToolLimit(
+  toolName: string,
+  principal: Principal | undefined,
+  callerKey: string
+): RateLimitError | null {
+  if (!rateLimitConfig.enabled) {
+    return null;
+  }
+
+  const { multiplier, dailyToolCalls } = resolveTier(principal);
+  const limit = rateLimitConfig.tools[toolName] ?? rateLimitConfig.tools["*"];
+  if (limit) {
+    const retryAfter = limiter.take(`tool:${toolName}:${callerKey}`, scale(limit, multiplier));
+    if (retryAfter) {
+      return new RateLimitError(`Too many calls to tool ${toolName}`, retryAfter);
+    }
+  }
+
+  if (dailyToolCalls > 0) {
+    const retryAfter = getQuotaStore().consume(callerKey, dailyToolCalls);
+    if (retryAfter) {
+      return new RateLimitError(
+        `Daily quota of ${dailyToolCalls} tool calls exhausted`,
+        retryAfter
+      );
+    }
+  }
+  return null;
+}
+
+/**
+ * Write pending quota usage to disk
+ */
+export function flushQuotas(): void {
+  quotaStore?.flush();
+}
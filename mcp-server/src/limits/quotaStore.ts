@@ -0,0 +1,104 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("limits");
+
+// How long usage changes may sit in memory before being written out
+const FLUSH_DELAY_MS = 1000;
+
+interface QuotaFile {
+  // UTC day the counts apply to (YYYY-MM-DD)
+  day: string;
+  counts: Record<string, number>;
+}
+
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Seconds until the daily quotas reset at UTC midnight
+ */
+function secondsUntilReset(): number {
+  const now = new Date();
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+/**
+ * Daily usage counters persisted to a local JSON file
+ *
+ * Counts survive restarts. Writes are batched and done atomically (write to
+ * a temporary file, then rename) so a crash never leaves a truncated file.
+ */
+export class FileQuotaStore {
+  private data: QuotaFile;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private file: string) {
+    this.data = this.load();
+  }
+
+  /**
+   * Count one use against a key's daily limit
+   *
+   * Returns 0 when the use is allowed, otherwise the number of seconds
+   * until the quota resets.
+   */
+  consume(key: string, limit: number): number {
+    const day = currentDay();
+    if (this.data.day !== day) {
+      this.data = { day, counts: {} };
+    }
+
+    const used = this.data.counts[key] ?? 0;
+    if (used >= limit) {
+      return secondsUntilReset();
+    }
+
+    this.data.counts[key] = used + 1;
+    this.scheduleFlush();
+    return 0;
+  }
+
+  /**
+   * Write pending changes to disk now
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const tmpFile = `${this.file}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify(this.data));
+      fs.renameSync(tmpFile, this.file);
+    } catch (error) {
+      log.error(`Error saving quota usage to ${this.file}`, error);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  private load(): QuotaFile {
+    try {
+      const data: QuotaFile = JSON.parse(fs.readFileSync(this.file, "utf-8"));
+      if (data.day === currentDay() && data.counts) {
+        return data;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        log.error(`Error loading quota usage from ${this.file}`, error);
+      }
+    }
+    return { day: currentDay(), counts: {} };
+  }
+}
@@ -0,0 +1,58 @@
+import { BucketLimit } from "./config";
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Cap on tracked buckets so a flood of distinct callers can't exhaust memory
+const MAX_BUCKETS = 50000;
+
+/**
+ * In-memory token buckets, one per key
+ */
+export class TokenBucketLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  /**
+   * Take one token from a key's bucket
+   *
+   * Returns 0 when the request is allowed, otherwise the number of seconds
+   * until a token is available.
+   */
+  take(key: string, limit: BucketLimit): number {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) ?? { tokens: limit.capacity, updatedAt: now };
+
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + elapsedSeconds * limit.refillPerSecond);
+    bucket.updatedAt = now;
+
+    // Re-insert so the map stays ordered by last use
+    this.buckets.delete(key);
+    this.remember(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    if (limit.refillPerSecond <= 0) {
+      return Infinity;
+    }
+    return Math.ceil((1 - bucket.tokens) / limit.refillPerSecond);
+  }
+
+  /**
+   * Store a bucket, dropping the least recently used ones when full
+   */
+  private remember(key: string, bucket: Bucket): void {
+    while (this.buckets.size >= MAX_BUCKETS) {
+      const oldest = this.buckets.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.buckets.delete(oldest);
+    }
+    this.buckets.set(key, bucket);
+  }
+}
@@ -1,2 +1,3 @@
 export * from "./server";
-export * from "./transport"; 
\ No newline at end of file
+export * from "./sessionManager";
+export * from "./transport"; 
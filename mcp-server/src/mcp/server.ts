@@ -1,25 +1,35 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerTools } from "./tools";
+import { Principal } from "../auth/principal";
+import { config } from "../config";
+import { createLogger } from "../utils/logger";
 
-// Create and configure the MCP server
-const mcpServer = new McpServer({
-  name: "my-mcp-server",
-  version: "1.0.0",
-});
+const log = createLogger("mcp");
 
 /**
- * Get the shared MCP server instance
+ * Build the MCP server for one session
+ *
+ * Every session gets its own server, so concurrent clients never share
+ * protocol state and each is offered only what its principal may use. The
+ * server lives as long as the transport it is connected to: when the
+ * transport closes, the server drops it and can be garbage collected.
+ *
+ * `clientIp` is the address the session was opened from, which tool rate
+ * limits and quotas count against when they aren't keyed by the principal.
  */
-export function getMcpServer(): McpServer {
-  return mcpServer;
-}
+export function createMcpServer(principal?: Principal, clientIp?: string): McpServer {
+  const server = new McpServer({
+    name: config.mcp.name,
+    version: config.mcp.version,
+  });
 
-/**
- * Initialize the MCP server with any required configurations
- */
-export function initializeMcpServer(): void {
-  // Register all tools
-  registerTools(mcpServer);
-  // Add any additional initialization logic here
-  console.log("MCP Server initialized");
+  // Register the tools this caller may use
+  registerTools(server, principal, clientIp);
+  // Register resources and prompts here as they are added
+
+  server.server.onclose = () => {
+    log.debug(`MCP server closed${principal ? ` for ${principal.subject}` : ""}`);
+  };
+
+  return server;
 }
@@ -0,0 +1,395 @@
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHttpServerTransport } from "./streamableHttp";
+import { getPrincipalKey, isSamePrincipal, Principal } from "../auth/principal";
+import { audit, SessionCloseEvent, toAuditPrincipal } from "../audit";
+import { createLogger } from "../utils/logger";
+import { config } from "../config";
+
+const log = createLogger("sessions");
+
+// Longest delay setTimeout accepts (about 24.8 days)
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Either transport a client can hold a session on
+export type SessionTransport = SSEServerTransport | StreamableHttpServerTransport;
+
+// Why a session ended
+export type SessionCloseReason = SessionCloseEvent["reason"];
+
+// Session limits configuration
+export interface SessionConfig {
+  // Close sessions with no client requests for this long; 0 disables
+  idleTimeoutMs: number;
+  // How often idle sessions are looked for
+  sweepIntervalMs: number;
+  // Sessions one subject may hold at once; 0 means no limit
+  maxPerSubject: number;
+}
+
+// Session limits configuration
+export const sessionConfig: SessionConfig = config.sessions;
+
+// What is known about an open session
+export interface SessionInfo {
+  sessionId: string;
+  transport: "sse" | "streamable-http";
+  // Shared by audit events of every request on the session
+  correlationId: string;
+  // Milliseconds since the epoch
+  createdAt: number;
+  lastActivityAt: number;
+  // The authenticated caller that opened the session
+  subject?: string;
+  clientId?: string;
+  issuer?: string;
+  scopes?: string[];
+  // When the caller's token expires, in milliseconds since the epoch
+  expiresAt?: number;
+}
+
+interface ActiveSession {
+  transport: SessionTransport;
+  correlationId: string;
+  createdAt: number;
+  lastActivityAt: number;
+  principal?: Principal;
+  // Closes the session when the caller's token expires
+  expiryTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Error raised when a subject already holds as many sessions as allowed
+ */
+export class SessionLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionLimitError";
+  }
+}
+
+/**
+ * Error raised when a session is opened while the server is shutting down
+ */
+export class SessionsClosedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionsClosedError";
+  }
+}
+
+/**
+ * Registry of the open MCP sessions of both transports
+ *
+ * Sessions bound to a principal are closed once its token expires, and
+ * sessions without client requests for `idleTimeoutMs` are evicted.
+ */
+export class SessionManager {
+  private sessions = new Map<string, ActiveSession>();
+  private sweepTimer?: NodeJS.Timeout;
+  private accepting = true;
+
+  constructor(private readonly config: SessionConfig) {
+    if (config.idleTimeoutMs > 0) {
+      this.sweepTimer = setInterval(() => this.evictIdle(), config.sweepIntervalMs);
+      this.sweepTimer.unref();
+    }
+  }
+
+  /**
+   * Register a new session
+   *
+   * When the connecting request was authenticated, the session is bound to
+   * that principal. Throws a SessionLimitError when the principal's subject
+   * already holds `maxPerSubject` sessions, and a SessionsClosedError once
+   * the server has stopped accepting sessions.
+   */
+  register(
+    transport: SessionTransport,
+    principal?: Principal,
+    correlationId?: string
+  ): void {
+    if (!this.accepting) {
+      throw new SessionsClosedError("The server is shutting down and not accepting new sessions");
+    }
+
+    if (principal && this.config.maxPerSubject > 0) {
+      const held = [...this.sessions.values()]
+        .filter((session) => session.principal && isSamePrincipal(session.principal, principal)).length;
+      if (held >= this.config.maxPerSubject) {
+        throw new SessionLimitError(
+          `${principal.subject} already has ${held} open sessions (limit ${this.config.maxPerSubject})`
+        );
+      }
+    }
+
+    const now = Date.now();
+    const session: ActiveSession = {
+      transport,
+      correlationId: correlationId ?? transport.sessionId,
+      createdAt: now,
+      lastActivityAt: now,
+      principal,
+    };
+    this.sessions.set(transport.sessionId, session);
+    this.scheduleExpiry(transport.sessionId, session);
+
+    audit({
+      type: "session.open",
+      correlationId: session.correlationId,
+      sessionId: transport.sessionId,
+      transport: getTransportType(transport),
+      principal: toAuditPrincipal(principal),
+    });
+  }
+
+  /**
+   * Get an active transport by session ID
+   */
+  getTransport(sessionId: string): SessionTransport | undefined {
+    return this.sessions.get(sessionId)?.transport;
+  }
+
+  /**
+   * Get the principal a session is bound to
+   */
+  getPrincipal(sessionId: string | undefined): Principal | undefined {
+    return sessionId ? this.sessions.get(sessionId)?.principal : undefined;
+  }
+
+  /**
+   * Get the correlation ID audit events for a session are tagged with
+   */
+  getCorrelationId(sessionId: string | undefined): string | undefined {
+    return sessionId ? this.sessions.get(sessionId)?.correlationId : undefined;
+  }
+
+  /**
+   * Record a client request on a session, keeping it from being evicted
+   */
+  touch(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.lastActivityAt = Date.now();
+    }
+  }
+
+  /**
+   * Extend a session's lifetime after the bound subject presented a newer token
+   */
+  renew(sessionId: string, renewed: Principal): void {
+    const session = this.sessions.get(sessionId);
+    if (!session?.principal || !isSamePrincipal(session.principal, renewed)) {
+      return;
+    }
+
+    if ((renewed.expiresAt ?? Infinity) <= (session.principal.expiresAt ?? Infinity)) {
+      return;
+    }
+
+    session.principal = renewed;
+    this.scheduleExpiry(sessionId, session);
+  }
+
+  /**
+   * Describe every open session
+   */
+  list(): SessionInfo[] {
+    return [...this.sessions.entries()].map(([sessionId, session]) => ({
+      sessionId,
+      transport: getTransportType(session.transport),
+      correlationId: session.correlationId,
+      createdAt: session.createdAt,
+      lastActivityAt: session.lastActivityAt,
+      subject: session.principal?.subject,
+      clientId: session.principal?.clientId,
+      issuer: session.principal?.issuer,
+      scopes: session.principal?.scopes,
+      expiresAt: session.principal?.expiresAt,
+    }));
+  }
+
+  /**
+   * Forget a session whose connection has already ended
+   */
+  remove(sessionId: string, reason: SessionCloseReason = "client_disconnected"): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    if (session.expiryTimer) {
+      clearTimeout(session.expiryTimer);
+    }
+    this.sessions.delete(sessionId);
+
+    audit({
+      type: "session.close",
+      correlationId: session.correlationId,
+      sessionId,
+      reason,
+      durationMs: Date.now() - session.createdAt,
+    });
+  }
+
+  /**
+   * Close a session and its connection
+   *
+   * Returns false when there is no such session.
+   */
+  async terminate(sessionId: string, reason: SessionCloseReason = "terminated"): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    // Remove first so the transport's close callback doesn't record a disconnect
+    this.remove(sessionId, reason);
+    try {
+      await session.transport.close();
+    } catch (err) {
+      log.warn(`Error closing session ${sessionId.substring(0, 8)}...`, err);
+    }
+    return true;
+  }
+
+  /**
+   * Close every session of a subject of an issuer, e.g. when its account
+   * is disabled
+   *
+   * Returns the number of sessions closed.
+   */
+  async terminateSubject(
+    subject: string,
+    issuer: string,
+    reason: SessionCloseReason = "terminated"
+  ): Promise<number> {
+    const key = getPrincipalKey({ subject, issuer });
+    const closed = await this.terminateMatching((principal) => getPrincipalKey(principal) === key, reason);
+    if (closed > 0) {
+      log.info(`Closed ${closed} session(s) of ${subject} of ${issuer}`);
+    }
+    return closed;
+  }
+
+  /**
+   * Close every session whose principal matches a predicate
+   *
+   * Returns the number of sessions closed.
+   */
+  async terminateMatching(
+    predicate: (principal: Principal) => boolean,
+    reason: SessionCloseReason = "terminated"
+  ): Promise<number> {
+    const sessionIds = [...this.sessions.entries()]
+      .filter(([, session]) => session.principal && predicate(session.principal))
+      .map(([sessionId]) => sessionId);
+
+    for (const sessionId of sessionIds) {
+      await this.terminate(sessionId, reason);
+    }
+    return sessionIds.length;
+  }
+
+  /**
+   * Refuse new sessions from now on, e.g. while the server shuts down
+   */
+  stopAccepting(): void {
+    this.accepting = false;
+  }
+
+  /**
+   * Whether new sessions can be opened
+   */
+  isAccepting(): boolean {
+    return this.accepting;
+  }
+
+  /**
+   * Tell every session's client that the server is going away, then close
+   * the sessions and stop the idle sweep
+   */
+  async closeAll(reason: SessionCloseReason = "server_closed"): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+    for (const [sessionId, session] of [...this.sessions.entries()]) {
+      try {
+        await session.transport.send({
+          jsonrpc: "2.0",
+          method: "sse/server_shutdown",
+          params: { message: "Server is shutting down, reconnect to continue" },
+        });
+      } catch (err) {
+        // The client may already be gone, or have no stream open to notify
+        log.debug(`Could not notify session ${sessionId.substring(0, 8)}... of shutdown`, err);
+      }
+      await this.terminate(sessionId, reason);
+    }
+  }
+
+  /**
+   * Close sessions that have been idle for longer than the timeout
+   */
+  private evictIdle(): void {
+    const cutoff = Date.now() - this.config.idleTimeoutMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.lastActivityAt < cutoff) {
+        log.info(`Session ${sessionId.substring(0, 8)}... closed: idle`);
+        this.terminate(sessionId, "idle_timeout").catch((err) => {
+          log.error(`Error closing idle session ${sessionId.substring(0, 8)}...`, err);
+        });
+      }
+    }
+  }
+
+  /**
+   * (Re)arm the timer that closes a session when its token expires
+   */
+  private scheduleExpiry(sessionId: string, session: ActiveSession): void {
+    if (session.expiryTimer) {
+      clearTimeout(session.expiryTimer);
+      session.expiryTimer = undefined;
+    }
+
+    const expiresAt = session.principal?.expiresAt;
+    if (!expiresAt) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(expiresAt - Date.now(), 0), MAX_TIMER_DELAY_MS);
+    session.expiryTimer = setTimeout(() => {
+      if (session.principal?.expiresAt && session.principal.expiresAt > Date.now()) {
+        // Renewed while waiting, or expiry is beyond the longest timer delay
+        this.scheduleExpiry(sessionId, session);
+        return;
+      }
+      this.expire(sessionId, session).catch((err) => {
+        log.error(`Error closing expired session ${sessionId.substring(0, 8)}...`, err);
+      });
+    }, delay);
+    session.expiryTimer.unref();
+  }
+
+  /**
+   * Notify the client that its token expired and close the session
+   */
+  private async expire(sessionId: string, session: ActiveSession): Promise<void> {
+    log.info(`Session ${sessionId.substring(0, 8)}... closed: access token expired`);
+    try {
+      await session.transport.send({
+        jsonrpc: "2.0",
+        method: "sse/session_expired",
+        params: { message: "Access token expired, reconnect with a new token" },
+      });
+    } finally {
+      await this.terminate(sessionId, "token_expired");
+    }
+  }
+}
+
+function getTransportType(transport: SessionTransport): SessionInfo["transport"] {
+  return transport instanceof SSEServerTransport ? "sse" : "streamable-http";
+}
+
+// The server's open sessions
+export const sessionManager = new SessionManager(sessionConfig);
@@ -0,0 +1,245 @@
+import { randomUUID } from "node:crypto";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { JSONRPCMessage, JSONRPCMessageSchema, RequestId } from "@modelcontextprotocol/sdk/types.js";
+import { readJsonBody } from "../utils/body";
+
+// How a POST that carried requests is being answered
+interface PendingResponse {
+  res: ServerResponse;
+  // Answer with an event stream rather than a single JSON body
+  stream: boolean;
+  // Requests on this POST still waiting for a response
+  pending: Set<RequestId>;
+  // Responses collected so far, for JSON answers
+  responses: JSONRPCMessage[];
+  // Whether the POST body was a batch, so the JSON answer is one too
+  batch: boolean;
+}
+
+/**
+ * Error for a POST body that isn't valid JSON-RPC
+ */
+export class InvalidMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidMessageError";
+  }
+}
+
+/**
+ * Server side of the MCP Streamable HTTP transport (protocol revision
+ * 2025-03-26) for a single session
+ *
+ * Clients POST JSON-RPC messages to one endpoint. A POST carrying requests
+ * is answered either with a JSON body or with an event stream that ends
+ * once every request has its response; a GET opens a stream for messages
+ * the server sends on its own.
+ */
+export class StreamableHttpServerTransport implements Transport {
+  readonly sessionId = randomUUID();
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  // Stream opened by GET for server-initiated messages
+  private standaloneStream?: ServerResponse;
+  // Open POST answers, by the ID of each request they carry
+  private responses = new Map<RequestId, PendingResponse>();
+  private closed = false;
+
+  /**
+   * @param jsonResponse answer POSTs with JSON bodies instead of event streams
+   */
+  constructor(private readonly jsonResponse = false) {}
+
+  async start(): Promise<void> {
+    // Nothing to set up; every HTTP request is handed over by the route
+  }
+
+  /**
+   * Handle a POST carrying one JSON-RPC message or a batch of them
+   *
+   * Notifications and responses are accepted with 202; requests keep the
+   * HTTP response open until the server has answered all of them.
+   */
+  async handlePostRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    parsedBody?: unknown
+  ): Promise<void> {
+    const messages = parseMessages(parsedBody ?? await readJsonBody(req));
+    const requestIds = messages
+      .filter((message) => "method" in message && "id" in message)
+      .map((message) => (message as { id: RequestId }).id);
+
+    if (requestIds.length === 0) {
+      res.writeHead(202, { "Mcp-Session-Id": this.sessionId }).end();
+    } else {
+      const accept = req.headers.accept || "";
+      const pending: PendingResponse = {
+        res,
+        stream: !this.jsonResponse && accept.includes("text/event-stream"),
+        pending: new Set(requestIds),
+        responses: [],
+        batch: Array.isArray(parsedBody) || messages.length > 1,
+      };
+      for (const id of requestIds) {
+        this.responses.set(id, pending);
+      }
+
+      if (pending.stream) {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+          "Mcp-Session-Id": this.sessionId,
+        });
+      }
+
+      res.on("close", () => {
+        for (const id of pending.pending) {
+          this.responses.delete(id);
+        }
+      });
+    }
+
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+  }
+
+  /**
+   * Handle a GET opening the stream for server-initiated messages
+   */
+  handleGetRequest(req: IncomingMessage, res: ServerResponse): void {
+    if (!(req.headers.accept || "").includes("text/event-stream")) {
+      res.writeHead(406, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Accept must include text/event-stream" }));
+      return;
+    }
+
+    if (this.standaloneStream) {
+      res.writeHead(409, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "A stream is already open for this session" }));
+      return;
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "Mcp-Session-Id": this.sessionId,
+    });
+    // Send the headers now so the client sees the stream open
+    res.flushHeaders();
+
+    this.standaloneStream = res;
+    res.on("close", () => {
+      if (this.standaloneStream === res) {
+        this.standaloneStream = undefined;
+      }
+    });
+  }
+
+  /**
+   * Deliver a message from the server
+   *
+   * Responses go back on the POST that carried their request. Anything else
+   * goes to the GET stream when one is open, or else to an open POST stream;
+   * with neither, the message is dropped as the protocol allows.
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error("Not connected");
+    }
+
+    if (!("method" in message) && "id" in message) {
+      const pending = this.responses.get(message.id);
+      if (!pending) {
+        // The client went away before the response was ready
+        return;
+      }
+      this.responses.delete(message.id);
+      pending.pending.delete(message.id);
+      this.deliver(pending, message);
+      return;
+    }
+
+    const stream = this.standaloneStream
+      ?? [...this.responses.values()].find((pending) => pending.stream)?.res;
+    stream?.write(formatEvent(message));
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    this.standaloneStream?.end();
+    this.standaloneStream = undefined;
+    for (const pending of new Set(this.responses.values())) {
+      if (!pending.res.writableEnded) {
+        pending.res.end();
+      }
+    }
+    this.responses.clear();
+
+    this.onclose?.();
+  }
+
+  /**
+   * Write a response to its POST, finishing the HTTP response once it holds
+   * every response that POST is waiting for
+   */
+  private deliver(pending: PendingResponse, message: JSONRPCMessage): void {
+    if (pending.stream) {
+      pending.res.write(formatEvent(message));
+      if (pending.pending.size === 0) {
+        pending.res.end();
+      }
+      return;
+    }
+
+    pending.responses.push(message);
+    if (pending.pending.size === 0) {
+      pending.res.writeHead(200, {
+        "Content-Type": "application/json",
+        "Mcp-Session-Id": this.sessionId,
+      });
+      pending.res.end(JSON.stringify(pending.batch ? pending.responses : pending.responses[0]));
+    }
+  }
+}
+
+/**
+ * Validate a POST body as one JSON-RPC message or a non-empty batch
+ */
+export function parseMessages(body: unknown): JSONRPCMessage[] {
+  const items = Array.isArray(body) ? body : [body];
+  if (items.length === 0) {
+    throw new InvalidMessageError("Empty batch");
+  }
+
+  return items.map((item) => {
+    const result = JSONRPCMessageSchema.safeParse(item);
+    if (!result.success) {
+      throw new InvalidMessageError("Body is not a valid JSON-RPC message");
+    }
+    return result.data;
+  });
+}
+
+/**
+ * Check whether a POST body opens a session, i.e. carries an initialize request
+ */
+export function isInitializeRequest(body: unknown): boolean {
+  const items = Array.isArray(body) ? body : [body];
+  return items.some((item) => item && typeof item === "object" && item.method === "initialize");
+}
+
+function formatEvent(message: JSONRPCMessage): string {
+  return `event: message\ndata: ${JSON.stringify(message)}\n\n`;
+}
@@ -5,6 +5,7 @@ import { z } from "zod";
  */
 export const echoTool: McpTool = {
   name: "echo",
+  requiredScopes: ["mcp:echo"],
   schema: { message: z.string() },
   handler: async (args: Record<string, any>, _extra: any) => {
     const { message } = args;
@@ -1,21 +1,206 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolRequest,
+  CallToolRequestSchema,
+  CallToolResult,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
 import { echoTool } from "./echo";
 import { calculatorTool } from "./calculator";
 import { weatherTool } from "./weather";
+import { sessionManager } from "../sessionManager";
+import { authorizeTool } from "../../auth/scopes";
+import { checkToolLimit, getCallerKey } from "../../limits";
+import { audit, hashArguments, toAuditPrincipal, ToolCallEvent } from "../../audit";
+import { toolCallDuration, toolCalls } from "../../metrics";
+import { Principal } from "../../auth/principal";
+import { createLogger } from "../../utils/logger";
+import { config } from "../../config";
+
+const log = createLogger("tools");
 // All available tools
-const tools: McpTool[] = [
-  // echoTool,
+const allTools: McpTool[] = [
+  echoTool,
   calculatorTool,
   weatherTool,
   // Add more tools here as needed
 ];
 
+// Tools enabled by configuration
+const tools: McpTool[] = allTools.filter((tool) => config.mcp.tools.includes(tool.name));
+
+for (const name of config.mcp.tools) {
+  if (!allTools.some((tool) => tool.name === name)) {
+    log.warn(`Unknown tool in configuration: ${name}`);
+  }
+}
+
+// Tool calls that haven't returned yet, so shutdown can wait for them
+const activeCalls = new Set<Promise<unknown>>();
+
+// What tools/list shows of each enabled tool
+const toolDefinitions = new Map<string, Tool>(
+  tools.map((tool) => [
+    tool.name,
+    {
+      name: tool.name,
+      inputSchema: zodToJsonSchema(z.object(tool.schema), { strictUnions: true }) as Tool["inputSchema"],
+    },
+  ])
+);
+
+/**
+ * Install the tools/list and tools/call handlers on a session's MCP server
+ *
+ * Both are installed even when the caller may use none of the tools, so
+ * tools/list answers with an empty list and tools/call with
+ * insufficient_scope rather than the session failing to start. The
+ * session's current principal is checked on every request, since a newer
+ * token may have been presented since the session opened.
+ */
+export function registerTools(server: McpServer, principal?: Principal, clientIp?: string): void {
+  const getPrincipal = (extra: RequestHandlerExtra) =>
+    sessionManager.getPrincipal(extra.sessionId) ?? principal;
+
+  server.server.registerCapabilities({ tools: {} });
+  server.server.setRequestHandler(ListToolsRequestSchema, (_request, extra) => ({
+    tools: tools
+      .filter((tool) => !authorizeTool(tool, getPrincipal(extra)))
+      .map((tool) => toolDefinitions.get(tool.name)!),
+  }));
+  server.server.setRequestHandler(CallToolRequestSchema, (request, extra) =>
+    callTool(request, extra, getPrincipal(extra), clientIp)
+  );
+
+  log.debug(`Registered ${tools.filter((tool) => !authorizeTool(tool, principal)).length} of ${tools.length} tools`);
+}
+
+/**
+ * Describe every known tool, whether it is enabled and what it requires
+ */
+export function getToolCatalog(): Array<{
+  name: string;
+  enabled: boolean;
+  requiredScopes: string[];
+  requiredClaims: Record<string, string | number | boolean>;
+}> {
+  return allTools.map((tool) => ({
+    name: tool.name,
+    enabled: tools.includes(tool),
+    requiredScopes: tool.requiredScopes ?? [],
+    requiredClaims: tool.requiredClaims ?? {},
+  }));
+}
+
+/**
+ * Wait until no tool call is in progress, or the timeout passes
+ *
+ * Calls that start while waiting, such as ones sent on sessions that are
+ * still open during shutdown, are waited for too.
+ *
+ * Returns the number of calls still running.
+ */
+export async function waitForToolCalls(timeoutMs: number): Promise<number> {
+  const deadline = Date.now() + timeoutMs;
+  while (activeCalls.size > 0 && Date.now() < deadline) {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, deadline - Date.now());
+    });
+    await Promise.race([Promise.allSettled([...activeCalls]), timeout]);
+    clearTimeout(timer);
+  }
+  return activeCalls.size;
+}
+
+/**
+ * Scopes required by any registered tool, for scopes_supported
+ */
+export function getToolScopes(): string[] {
+  return [...new Set(tools.flatMap((tool) => tool.requiredScopes ?? []))];
+}
+
 /**
- * Register all tools with the MCP server
+ * Run a tools/call request, rejecting it when the caller lacks the scopes
+ * or claims the tool requires or is over its rate limits, and handing the
+ * caller's principal to the tool
  */
-export function registerTools(server: McpServer): void {
-  for (const tool of tools) {
-    server.tool(tool.name, tool.schema, tool.handler);
-    console.log(`Registered tool: ${tool.name}`);
+async function callTool(
+  request: CallToolRequest,
+  extra: RequestHandlerExtra,
+  principal: Principal | undefined,
+  clientIp: string | undefined
+): Promise<CallToolResult> {
+  const tool = tools.find((candidate) => candidate.name === request.params.name);
+  const startedAt = Date.now();
+  const recordCall = (outcome: ToolCallEvent["outcome"], reason?: string) => {
+    const durationMs = Date.now() - startedAt;
+    // Names of unknown tools come from the caller, so they share one series
+    const toolLabel = tool ? tool.name : "unknown";
+    toolCalls.inc({ tool: toolLabel, outcome });
+    toolCallDuration.observe({ tool: toolLabel }, durationMs / 1000);
+    audit({
+      type: "tool.call",
+      correlationId: sessionManager.getCorrelationId(extra.sessionId),
+      sessionId: extra.sessionId,
+      tool: request.params.name,
+      argsHash: hashArguments(request.params.arguments),
+      principal: toAuditPrincipal(principal),
+      durationMs,
+      outcome,
+      reason,
+    });
+  };
+
+  if (!tool) {
+    recordCall("error", "Unknown tool");
+    throw new McpError(ErrorCode.InvalidParams, `Tool ${request.params.name} not found`);
+  }
+
+  const denied = authorizeTool(tool, principal);
+  if (denied) {
+    log.warn(`Tool call denied for session ${extra.sessionId?.substring(0, 8)}...: ${denied.message}`);
+    recordCall("denied", denied.message);
+    throw new McpError(ErrorCode.InvalidRequest, `insufficient_scope: ${denied.message}`);
+  }
+
+  // Counted like HTTP requests, so a new session doesn't start a fresh quota
+  const callerKey = getCallerKey(principal, clientIp ? `ip:${clientIp}` : `session:${extra.sessionId}`);
+  const limited = checkToolLimit(tool.name, principal, callerKey);
+  if (limited) {
+    log.warn(`Tool call rate limited for session ${extra.sessionId?.substring(0, 8)}...: ${limited.message}`);
+    recordCall("rate_limited", limited.message);
+    throw new McpError(ErrorCode.InvalidRequest, `rate_limited: ${limited.message}`, {
+      retryAfter: limited.retryAfterSeconds,
+    });
+  }
+
+  const args = await z.object(tool.schema).safeParseAsync(request.params.arguments ?? {});
+  if (!args.success) {
+    recordCall("error", args.error.message);
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for tool ${tool.name}: ${args.error.message}`);
+  }
+
+  // Tool handlers receive the caller as extra.authInfo
+  const toolExtra: McpToolExtra = { ...extra, authInfo: principal };
+  const call = tool.handler(args.data, toolExtra);
+  activeCalls.add(call);
+  try {
+    const result = await call;
+    recordCall("success");
+    return result;
+  } catch (error) {
+    // Like McpServer, report a failing tool as a tool error, not a protocol error
+    const message = error instanceof Error ? error.message : String(error);
+    recordCall("error", message);
+    return { content: [{ type: "text", text: message }], isError: true };
+  } finally {
+    activeCalls.delete(call);
   }
-}
\ No newline at end of file
+}
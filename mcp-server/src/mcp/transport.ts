@@ -1,33 +1,35 @@
 import { ServerResponse } from "node:http";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-
-// Store active transports by sessionId
-const activeTransports: Record<string, SSEServerTransport> = {};
+import { StreamableHttpServerTransport } from "./streamableHttp";
+import { sessionManager } from "./sessionManager";
+import { Principal } from "../auth/principal";
 
 /**
- * Create a new SSE transport and register it
+ * Create a new SSE transport and register its session
+ *
+ * When the connecting request was authenticated, the session is bound to
+ * that principal and closed once its token expires.
  */
 export function createSseTransport(
   path: string,
-  res: ServerResponse
+  res: ServerResponse,
+  principal?: Principal,
+  correlationId?: string
 ): SSEServerTransport {
   const transport = new SSEServerTransport(path, res);
-  activeTransports[transport.sessionId] = transport;
+  sessionManager.register(transport, principal, correlationId);
   return transport;
 }
 
 /**
- * Get an active transport by session ID
- */
-export function getTransport(
-  sessionId: string
-): SSEServerTransport | undefined {
-  return activeTransports[sessionId];
-}
-
-/**
- * Remove an active transport
+ * Create a new Streamable HTTP transport and register its session
  */
-export function removeTransport(sessionId: string): void {
-  delete activeTransports[sessionId];
+export function createStreamableHttpTransport(
+  jsonResponse: boolean,
+  principal?: Principal,
+  correlationId?: string
+): StreamableHttpServerTransport {
+  const transport = new StreamableHttpServerTransport(jsonResponse);
+  sessionManager.register(transport, principal, correlationId);
+  return transport;
 }
@@ -0,0 +1,71 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { Counter, Gauge, Histogram, MetricsRegistry } from "./registry";
+import { sessionManager, SessionInfo } from "../mcp/sessionManager";
+import { config } from "../config";
+
+export * from "./registry";
+
+// Metrics configuration
+export interface MetricsConfig {
+  // Whether /metrics is served
+  enabled: boolean;
+  // Client addresses allowed to scrape; empty allows any
+  allowedIps: string[];
+  // Bearer token scrapers must present, if set
+  token?: string;
+}
+
+// Metrics configuration
+export const metricsConfig: MetricsConfig = config.metrics;
+
+// Every metric the server exposes
+export const metricsRegistry = new MetricsRegistry();
+
+// HTTP requests by matched route, method and response status
+export const httpRequests = metricsRegistry.register(
+  new Counter("mcp_http_requests_total", "HTTP requests by route, method and status")
+);
+
+// Authentication attempts by outcome and, for failures, error code
+export const authOutcomes = metricsRegistry.register(
+  new Counter("mcp_auth_outcomes_total", "Authentication attempts by outcome and reason")
+);
+
+// JWKS fetches by source and outcome
+export const jwksFetches = metricsRegistry.register(
+  new Counter("mcp_jwks_fetches_total", "JWKS fetches by source and outcome")
+);
+
+// Tool calls by tool and outcome
+export const toolCalls = metricsRegistry.register(
+  new Counter("mcp_tool_calls_total", "Tool calls by tool and outcome")
+);
+
+// Tool call latency by tool
+export const toolCallDuration = metricsRegistry.register(
+  new Histogram("mcp_tool_call_duration_seconds", "Tool call latency in seconds")
+);
+
+const TRANSPORTS: Array<SessionInfo["transport"]> = ["sse", "streamable-http"];
+
+metricsRegistry.register(
+  new Gauge("mcp_sessions_active", "Open MCP sessions by transport", () => {
+    const sessions = sessionManager.list();
+    return TRANSPORTS.map((transport) => ({
+      labels: { transport },
+      value: sessions.filter((session) => session.transport === transport).length,
+    }));
+  })
+);
+
+/**
+ * Count a request under its route once its response is finished or aborted
+ *
+ * `route` is the route pattern rather than the URL, which keeps the number
+ * of series bounded.
+ */
+export function observeRequest(req: IncomingMessage, res: ServerResponse, route: string): void {
+  res.once("close", () => {
+    httpRequests.inc({ route, method: req.method || "GET", status: String(res.statusCode) });
+  });
+}
@@ -0,0 +1,143 @@
+// Label names and values of one series
+export type Labels = Record<string, string>;
+
+// Default histogram buckets, in seconds
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * A metric that can render itself in the Prometheus text format
+ */
+export interface Metric {
+  readonly name: string;
+  render(): string;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// Series are keyed by their rendered labels, which are also their identity
+function seriesKey(labels: Labels): string {
+  return formatLabels(Object.fromEntries(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))));
+}
+
+function header(name: string, help: string, type: string): string {
+  return `# HELP ${name} ${help}\n# TYPE ${name} ${type}\n`;
+}
+
+/**
+ * A value that only goes up, per label set
+ */
+export class Counter implements Metric {
+  private series = new Map<string, number>();
+
+  constructor(readonly name: string, private help: string) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = seriesKey(labels);
+    this.series.set(key, (this.series.get(key) ?? 0) + amount);
+  }
+
+  render(): string {
+    let text = header(this.name, this.help, "counter");
+    for (const [labels, value] of this.series) {
+      text += `${this.name}${labels} ${value}\n`;
+    }
+    return text;
+  }
+}
+
+/**
+ * A value read when metrics are scraped, per label set
+ */
+export class Gauge implements Metric {
+  constructor(
+    readonly name: string,
+    private help: string,
+    private collect: () => Array<{ labels: Labels; value: number }>
+  ) {}
+
+  render(): string {
+    let text = header(this.name, this.help, "gauge");
+    for (const { labels, value } of this.collect()) {
+      text += `${this.name}${seriesKey(labels)} ${value}\n`;
+    }
+    return text;
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  // Observations at or below each bucket's upper bound
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Observations counted into buckets, per label set
+ */
+export class Histogram implements Metric {
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    private help: string,
+    private buckets: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series!.counts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string {
+    let text = header(this.name, this.help, "histogram");
+    for (const series of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        const labels = seriesKey({ ...series.labels, le: String(bound) });
+        text += `${this.name}_bucket${labels} ${series.counts[index]}\n`;
+      });
+      text += `${this.name}_bucket${seriesKey({ ...series.labels, le: "+Inf" })} ${series.count}\n`;
+      text += `${this.name}_sum${seriesKey(series.labels)} ${series.sum}\n`;
+      text += `${this.name}_count${seriesKey(series.labels)} ${series.count}\n`;
+    }
+    return text;
+  }
+}
+
+/**
+ * The metrics exposed together on one endpoint
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /**
+   * Render every metric in the Prometheus text exposition format
+   */
+  render(): string {
+    return this.metrics.map((metric) => metric.render()).join("");
+  }
+}
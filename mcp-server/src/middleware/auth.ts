@@ -1,6 +1,22 @@
 import { IncomingMessage, ServerResponse } from "node:http";
-import { getTransport } from "../mcp";
-import { verifyToken, decodeToken } from "../auth/tokenValidator";
+import { sessionManager } from "../mcp";
+import { decodeToken } from "../auth/tokenValidator";
+import { getTokenValidator } from "../auth/validator";
+import { isSamePrincipal, Principal } from "../auth/principal";
+import { AuthError, AuthScheme, missingTokenError, toAuthError } from "../auth/errors";
+import { dpopConfig, getDpopNonce, verifyDpopProof } from "../auth/dpop";
+import { getRevocationList } from "../revocation";
+import { parseCookies } from "../utils/cookies";
+import { getResourceMetadataPath } from "../auth/resource";
+import { audit, toAuditPrincipal } from "../audit";
+import { authOutcomes } from "../metrics";
+import { createLogger } from "../utils/logger";
+import { config } from "../config";
+
+const log = createLogger("auth");
+
+// Ways a client may present its access token
+export type TokenMethod = "header" | "query" | "cookie";
 
 // Auth configuration
 export interface AuthConfig {
@@ -8,15 +24,44 @@ export interface AuthConfig {
   authLoginUrl: string;
   // Whether to include the original URL as a returnTo parameter
   includeReturnUrl: boolean;
+  // Path of the protected resource metadata document advertised in challenges
+  resourceMetadataPath: string;
+  // Scopes a client should request to access this resource
+  scopes: string[];
+  // Ways a client may present its access token
+  tokenMethods: TokenMethod[];
+  // Cookie that carries the access token when "cookie" is allowed
+  cookieName: string;
 }
 
+// Paths served without an access token; they do their own access checks
+const PUBLIC_PATHS = ["/ping", "/healthz", "/readyz", "/metrics"];
+
 export const authConfig: AuthConfig = {
   // The URL to redirect to for authentication
   authLoginUrl: "/auth/login",
   // Whether to include the original URL as a returnTo parameter
   includeReturnUrl: true,
+  // Path of the protected resource metadata document advertised in challenges
+  resourceMetadataPath: getResourceMetadataPath(),
+  // Scopes a client should request to access this resource
+  scopes: config.auth.scopes,
+  // Query string tokens end up in proxy logs (RFC 6750 section 5.3), so
+  // they are off unless configured
+  tokenMethods: config.auth.tokenMethods,
+  // Cookie that carries the access token when "cookie" is allowed
+  cookieName: config.auth.cookieName,
 };
 
+/**
+ * Token methods to advertise as bearer_methods_supported (RFC 9728)
+ *
+ * Cookies are not a registered bearer method, so they are not advertised.
+ */
+export function getBearerMethodsSupported(): string[] {
+  return authConfig.tokenMethods.filter((method) => method !== "cookie");
+}
+
 /**
  * Configure auth settings
  */
@@ -25,80 +70,377 @@ export function configureAuth(config: Partial<AuthConfig>): void {
 }
 
 /**
- * Helper function to handle unauthorized responses
+ * Get the origin (scheme and host) the client used to reach this server
+ */
+export function getRequestOrigin(req: IncomingMessage): string {
+  const forwardedProto = req.headers["x-forwarded-proto"];
+  const proto = (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto) || "http";
+  return `${proto}://${req.headers.host || "localhost"}`;
+}
+
+/**
+ * Build the absolute URL of the protected resource metadata document
+ */
+export function getResourceMetadataUrl(req: IncomingMessage): string {
+  return `${getRequestOrigin(req)}${authConfig.resourceMetadataPath}`;
+}
+
+/**
+ * Build one RFC 6750 / RFC 9449 / RFC 9728 challenge for the WWW-Authenticate header
+ *
+ * Error details are only included in the challenge for the scheme the
+ * error applies to.
+ */
+function buildChallenge(
+  req: IncomingMessage,
+  error: AuthError,
+  scheme: AuthScheme
+): string {
+  const params: Record<string, string> = {
+    resource_metadata: getResourceMetadataUrl(req),
+  };
+
+  if (scheme === "DPoP") {
+    params.algs = dpopConfig.algorithms.join(" ");
+  }
+
+  // RFC 6750 section 3: no error code when the request had no credentials
+  if (error.code && error.scheme === scheme) {
+    params.error = error.code;
+    params.error_description = error.message;
+  }
+
+  const scope = error.scope ?? authConfig.scopes.join(" ");
+  if (scope) {
+    params.scope = scope;
+  }
+
+  const attributes = Object.entries(params).map(
+    ([name, value]) => `${name}="${value.replace(/["\\]/g, "\\$&")}"`
+  );
+  return `${scheme} ${attributes.join(", ")}`;
+}
+
+/**
+ * Build the WWW-Authenticate challenges for an auth failure
+ *
+ * A DPoP challenge is always offered; the Bearer challenge only when plain
+ * bearer tokens are still accepted.
+ */
+export function buildAuthChallenges(
+  req: IncomingMessage,
+  error: AuthError
+): string[] {
+  const challenges = [buildChallenge(req, error, "DPoP")];
+  if (!dpopConfig.required) {
+    challenges.unshift(buildChallenge(req, error, "Bearer"));
+  }
+  return challenges;
+}
+
+/**
+ * Error name for a failure without an RFC 6750 error code
+ */
+function getErrorName(status: number): string {
+  switch (status) {
+    case 503:
+      return "temporarily_unavailable";
+    case 500:
+      return "server_error";
+    default:
+      return "unauthorized";
+  }
+}
+
+/**
+ * Answer a request that failed authentication or authorization
  */
-function handleUnauthorized(
+export function handleUnauthorized(
   req: IncomingMessage,
   res: ServerResponse,
-  errorMessage: string
+  error: AuthError
 ): void {
-  // If the URL is for a well-known route, let it pass through
-  if (req.url?.includes("/.well-known/")) {
-    return;
+  log.warn(`Authentication failed for ${getRequestPath(req)}: ${error.message}`);
+  authOutcomes.inc({
+    outcome: "failure",
+    reason: error.code ?? (error.status === 401 ? "missing_token" : getErrorName(error.status)),
+  });
+  audit({
+    type: "auth.failure",
+    correlationId: getCorrelationId(req),
+    requestId: req.requestId,
+    method: req.method || "GET",
+    path: getRequestPath(req),
+    status: error.status,
+    error: error.code,
+    reason: error.message,
+  });
+
+  const headers: Record<string, string | string[]> = { "Content-Type": "application/json" };
+  if (error.status === 400 || error.status === 401 || error.status === 403) {
+    headers["WWW-Authenticate"] = buildAuthChallenges(req, error);
+  }
+  if (error.dpopNonce) {
+    headers["DPoP-Nonce"] = error.dpopNonce;
   }
 
-  console.error(errorMessage);
-  res.writeHead(401, { "Content-Type": "application/json" });
-  res.end(JSON.stringify({ error: errorMessage }));
+  res.writeHead(error.status, headers);
+  res.end(
+    JSON.stringify({
+      error: error.code ?? getErrorName(error.status),
+      error_description: error.message,
+    })
+  );
 }
 
 /**
- * Extract token from request
+ * Get the MCP session a /messages or /mcp request is addressed to
  */
-export function extractToken(req: IncomingMessage): { token: string | null, source: string } {
-  let token: string | null = null;
-  let source: string = "none";
-
-  // Find token in any header with the name 'authorization' (case-insensitive)
-  for (const [key, value] of Object.entries(req.headers)) {
-    if (key.toLowerCase() === 'authorization') {
-      const authHeader = Array.isArray(value) ? value[0] : value as string;
-      if (authHeader && authHeader.toLowerCase().startsWith("bearer ")) {
-        token = authHeader.substring(7);
-        source = "Authorization header";
-        break;
-      }
+function getRequestSessionId(req: IncomingMessage): string | null {
+  if (getRequestPath(req) === "/mcp") {
+    const header = req.headers["mcp-session-id"];
+    return (Array.isArray(header) ? header[0] : header) || null;
+  }
+
+  if (!req.url?.startsWith("/messages") || !req.url.includes("sessionId=")) {
+    return null;
+  }
+
+  try {
+    const url = new URL(req.url, `http://${req.headers.host || "localhost"}`);
+    return url.searchParams.get("sessionId");
+  } catch (error) {
+    log.warn("Error parsing URL for sessionId", error);
+    return null;
+  }
+}
+
+/**
+ * Get the ID that links a request's audit events to its session
+ *
+ * Requests addressed to a session share the session's correlation ID; any
+ * other request (such as the request opening a session) uses its own ID.
+ */
+export function getCorrelationId(req: IncomingMessage): string | undefined {
+  return sessionManager.getCorrelationId(getRequestSessionId(req) ?? undefined) ?? req.requestId;
+}
+
+/**
+ * Request path without the query string, which may carry tokens or session IDs
+ */
+export function getRequestPath(req: IncomingMessage): string {
+  return (req.url || "").split("?")[0];
+}
+
+/**
+ * Whether a request is let through without an access token
+ */
+function isPublicRequest(req: IncomingMessage): boolean {
+  return (
+    getRequestPath(req).startsWith("/.well-known/") ||
+    req.method === "OPTIONS" ||
+    PUBLIC_PATHS.includes(getRequestPath(req))
+  );
+}
+
+/**
+ * Record a successful authentication in the audit log
+ */
+function auditAuthSuccess(
+  req: IncomingMessage,
+  extracted: ExtractedToken,
+  principal: Principal
+): void {
+  authOutcomes.inc({ outcome: "success", reason: "none" });
+  audit({
+    type: "auth.success",
+    correlationId: getCorrelationId(req),
+    requestId: req.requestId,
+    method: req.method || "GET",
+    path: getRequestPath(req),
+    tokenSource: `${extracted.source}:${extracted.scheme}`,
+    principal: toAuditPrincipal(principal)!,
+  });
+}
+
+/**
+ * Ensure a request addressed to a session carries a token for the same
+ * principal that opened it, and extend the session if the token is newer
+ *
+ * A session without a principal belongs to nobody, so no token matches it.
+ */
+function checkSessionBinding(
+  req: IncomingMessage,
+  caller: Principal
+): AuthError | null {
+  const sessionId = getRequestSessionId(req);
+
+  // Unknown sessions are rejected by the route handler
+  if (!sessionId || !sessionManager.getTransport(sessionId)) {
+    return null;
+  }
+
+  const principal = sessionManager.getPrincipal(sessionId);
+  if (!principal || !isSamePrincipal(caller, principal)) {
+    log.warn(`Session ${sessionId.substring(0, 8)}... is not bound to ${caller.subject} of ${caller.issuer}`);
+    return new AuthError(
+      "invalid_token",
+      "The access token does not belong to the principal that opened this session"
+    );
+  }
+
+  sessionManager.renew(sessionId, caller);
+  return null;
+}
+
+/**
+ * Refuse tokens that were revoked, by `jti`, by subject or by issue time
+ */
+function checkRevocation(principal: Principal): AuthError | null {
+  const entry = getRevocationList().match(principal);
+  if (!entry) {
+    return null;
+  }
+  log.warn(`Token of ${principal.subject} refused: revocation ${entry.id} (${entry.type})`);
+  return new AuthError("invalid_token", "The access token has been revoked");
+}
+
+/**
+ * Middleware that only lets through callers whose token grants every
+ * given scope
+ *
+ * Must run after the auth middleware, which sets `req.auth`.
+ */
+export function requireScopes(scopes: string[]) {
+  return (req: IncomingMessage, res: ServerResponse, next: () => void): void => {
+    if (!req.auth) {
+      handleUnauthorized(req, res, missingTokenError());
+      return;
     }
+
+    const missing = scopes.filter((scope) => !req.auth!.scopes.includes(scope));
+    if (missing.length > 0) {
+      handleUnauthorized(
+        req,
+        res,
+        new AuthError("insufficient_scope", `This endpoint requires scope: ${missing.join(" ")}`, {
+          scope: scopes.join(" "),
+        })
+      );
+      return;
+    }
+
+    next();
+  };
+}
+
+// A token found on a request and how it was presented
+export interface ExtractedToken {
+  token: string | null;
+  source: string;
+  scheme: AuthScheme;
+}
+
+/**
+ * Extract token from request
+ *
+ * Only the methods allowed by authConfig.tokenMethods are accepted. Per
+ * RFC 6750 section 2 a client must not use more than one method, so a
+ * request presenting several tokens, or a token through a disallowed
+ * method, is rejected with invalid_request rather than silently ignored.
+ */
+export function extractToken(req: IncomingMessage): ExtractedToken {
+  const presented: Array<{ method: TokenMethod; token: string; scheme: AuthScheme }> = [];
+
+  // Authorization header (node lower-cases header names)
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.toLowerCase().startsWith("bearer ")) {
+    presented.push({ method: "header", token: authHeader.substring(7).trim(), scheme: "Bearer" });
+  } else if (authHeader && authHeader.toLowerCase().startsWith("dpop ")) {
+    presented.push({ method: "header", token: authHeader.substring(5).trim(), scheme: "DPoP" });
   }
 
-  // If not found, check URL parameter
-  if (!token && req.url?.includes("?")) {
+  // URL query parameter
+  if (req.url?.includes("access_token=")) {
     try {
       const url = new URL(req.url, `http://${req.headers.host || "localhost"}`);
-      token = url.searchParams.get("access_token");
+      const token = url.searchParams.get("access_token");
       if (token) {
-        source = "URL parameter";
+        presented.push({ method: "query", token, scheme: "Bearer" });
       }
     } catch (error) {
-      console.error("Error parsing URL for token:", error);
+      log.warn("Error parsing URL for token", error);
     }
   }
 
-  // If still not found, check cookies
-  if (!token && req.headers.cookie) {
-    const cookies = req.headers.cookie.split(';');
-    for (const cookie of cookies) {
-      const [name, value] = cookie.trim().split('=');
-      if (name === 'access_token') {
-        token = value;
-        source = "Cookie";
-        break;
-      }
-    }
+  // Cookie
+  const cookieToken = parseCookies(req.headers.cookie)[authConfig.cookieName];
+  if (cookieToken) {
+    presented.push({ method: "cookie", token: cookieToken, scheme: "Bearer" });
   }
 
-  // Check for token in request body (POST requests)
-  if (!token && req.method === 'POST' && req.headers['content-type']?.includes('application/json')) {
-    // This requires body parsing which might have been done in another middleware
-    // We'll only check if it exists
-    const body = (req as any).body;
-    if (body && body.token) {
-      token = body.token;
-      source = "Request body";
+  if (presented.length === 0) {
+    return { token: null, source: "none", scheme: "Bearer" };
+  }
+
+  if (presented.length > 1) {
+    throw new AuthError(
+      "invalid_request",
+      `Multiple access tokens presented (${presented.map((p) => p.method).join(", ")})`
+    );
+  }
+
+  const [{ method, token, scheme }] = presented;
+  if (!authConfig.tokenMethods.includes(method)) {
+    throw new AuthError(
+      "invalid_request",
+      `Access tokens are not accepted in the ${method}`
+    );
+  }
+
+  return { token, source: method, scheme };
+}
+
+/**
+ * Check that the way a token was presented matches how it is bound
+ *
+ * DPoP-bound tokens (with a `cnf.jkt` claim) must come with a valid DPoP
+ * proof, and can't be downgraded to plain bearer use. When nonces are
+ * required, an accepted proof is answered with the nonce for the next one.
+ */
+async function checkTokenBinding(
+  req: IncomingMessage,
+  res: ServerResponse,
+  extracted: ExtractedToken,
+  principal: Principal
+): Promise<void> {
+  const jkt: string | undefined = principal.claims.cnf?.jkt;
+
+  if (extracted.scheme === "DPoP") {
+    await verifyDpopProof({
+      proof: req.headers.dpop,
+      method: req.method || "GET",
+      url: `${getRequestOrigin(req)}${req.url}`,
+      accessToken: extracted.token!,
+      jkt,
+    });
+    if (dpopConfig.requireNonce) {
+      res.setHeader("DPoP-Nonce", getDpopNonce());
     }
+    return;
   }
 
-  return { token, source };
+  if (jkt) {
+    throw new AuthError(
+      "invalid_token",
+      "DPoP-bound access tokens must be presented with the DPoP scheme"
+    );
+  }
+  if (dpopConfig.required) {
+    throw new AuthError("invalid_token", "A DPoP-bound access token is required", {
+      scheme: "DPoP",
+    });
+  }
 }
 
 /**
@@ -110,74 +452,60 @@ export async function authMiddleware(
   next: () => void
 ): Promise<void> {
   try {
-    // Skip auth for discovery endpoints and OPTIONS requests
-    if (
-      req.url?.includes("/.well-known/") ||
-      req.method === "OPTIONS" ||
-      req.url === "/ping"
-    ) {
+    // Skip auth for discovery endpoints, public paths and OPTIONS requests
+    if (isPublicRequest(req)) {
       return next();
     }
 
-    // Check if this is a messages request with a sessionId
-    if (req.url?.startsWith("/messages") && req.url?.includes("sessionId=")) {
-      try {
-        // Parse the URL to get the sessionId
-        const url = new URL(req.url, `http://${req.headers.host || "localhost"}`);
-        const sessionId = url.searchParams.get("sessionId");
-        
-        // If we have a sessionId and it corresponds to a valid transport,
-        // consider the request authenticated
-        if (sessionId && getTransport(sessionId)) {
-          console.log(`Request to ${req.url} authenticated via valid sessionId`);
-          return next();
-        }
-      } catch (error) {
-        console.error("Error parsing URL for sessionId:", error);
-      }
-    }
-
     // Extract token from request
-    const { token, source } = extractToken(req);
+    let extracted: ExtractedToken;
+    try {
+      extracted = extractToken(req);
+    } catch (error: unknown) {
+      handleUnauthorized(req, res, toAuthError(error));
+      return;
+    }
+    const { token, source } = extracted;
 
     // If no token, return unauthorized
     if (!token || token.trim() === "") {
-      handleUnauthorized(req, res, `No valid token provided for request to ${req.url}`);
+      handleUnauthorized(req, res, missingTokenError());
       return;
     }
 
     // Log token info for debugging
-    console.log(`Found token via ${source} for URL: ${req.url}`);
+    log.debug(`Found token via ${source} for ${getRequestPath(req)}`);
     
     try {
-      // Perform actual token validation against Dex
-      const decodedToken = await verifyToken(token);
+      // Perform actual token validation with the configured strategy
+      const principal = await getTokenValidator().validate(token);
+      await checkTokenBinding(req, res, extracted, principal);
       
+      const bindingError = checkRevocation(principal) ?? checkSessionBinding(req, principal);
+      if (bindingError) {
+        handleUnauthorized(req, res, bindingError);
+        return;
+      }
+
+      // Make the authenticated principal available to route handlers
+      req.auth = principal;
+      auditAuthSuccess(req, extracted, principal);
+
       // Log successful verification
-      console.log("Token verified successfully:", {
-        sub: decodedToken.sub,
-        exp: new Date(decodedToken.exp! * 1000).toISOString(),
-        iss: decodedToken.iss
+      log.debug("Token verified successfully", {
+        sub: principal.subject,
+        exp: principal.expiresAt ? new Date(principal.expiresAt).toISOString() : 'unknown',
+        iss: principal.claims.iss
       });
       
       // Continue to the next handler
       next();
     } catch (error: unknown) {
-      // Check if token expired
-      if (error instanceof Error && error.message.includes("expired")) {
-        handleUnauthorized(req, res, "Unauthorized - Token expired");
-        return;
-      }
-      
-      // Other verification errors
-      const errorMessage = error instanceof Error 
-        ? error.message 
-        : 'Unknown error';
-      handleUnauthorized(req, res, `Token verification failed: ${errorMessage}`);
+      handleUnauthorized(req, res, toAuthError(error));
       return;
     }
   } catch (error) {
-    console.error("Authentication error:", error);
+    log.error("Authentication error", error);
     res.writeHead(500, { "Content-Type": "application/json" });
     res.end(
       JSON.stringify({ error: "Internal Server Error during authentication" })
@@ -196,105 +524,85 @@ export async function simpleAuthMiddleware(
   validateToken: boolean = false
 ): Promise<void> {
   try {
-    // Skip auth for discovery endpoints and OPTIONS requests
-    if (
-      req.url?.includes("/.well-known/") ||
-      req.method === "OPTIONS" ||
-      req.url === "/ping"
-    ) {
+    // Skip auth for discovery endpoints, public paths and OPTIONS requests
+    if (isPublicRequest(req)) {
       return next();
     }
 
-    // Check if this is a messages request with a sessionId
-    if (req.url?.startsWith("/messages") && req.url?.includes("sessionId=")) {
-      try {
-        // Parse the URL to get the sessionId
-        const url = new URL(req.url, `http://${req.headers.host || "localhost"}`);
-        const sessionId = url.searchParams.get("sessionId");
-        
-        // If we have a sessionId and it corresponds to a valid transport,
-        // consider the request authenticated
-        if (sessionId && getTransport(sessionId)) {
-          console.log(`Request to ${req.url} authenticated via valid sessionId`);
-          return next();
-        }
-      } catch (error) {
-        console.error("Error parsing URL for sessionId:", error);
-      }
-    }
-
-    // For debugging - print request URL
-    console.log(`Request URL: ${req.url}`);
+    log.debug(`${req.method} ${getRequestPath(req)}`);
 
     // Extract token from request
-    const { token, source } = extractToken(req);
+    let extracted: ExtractedToken;
+    try {
+      extracted = extractToken(req);
+    } catch (error: unknown) {
+      handleUnauthorized(req, res, toAuthError(error));
+      return;
+    }
+    const { token, source } = extracted;
 
     if (!token || token.trim() === "") {
-      console.error(`Authentication failed: No token provided in request to ${req.url}`);
-      res.writeHead(401);
-      res.end(
-        JSON.stringify({
-          error: "Unauthorized",
-          code: 401,
-          message: "No valid token provided",
-        })
-      );
+      handleUnauthorized(req, res, missingTokenError());
       return;
     }
 
     // If full validation is requested, verify the token
     if (validateToken) {
       try {
-        console.log(`\n🔒 STEP 7: MCP Request with Access Token Authentication`);
-        console.log(`     Validating token for ${req.url} via ${source}...`);
+        log.flow(`\n🔒 STEP 7: MCP Request with Access Token Authentication`);
+        log.flow(`     Validating token for ${getRequestPath(req)} via ${source}...`);
         
-        // Verify token against Dex
-        const decodedToken = await verifyToken(token);
+        // Verify token with the configured strategy
+        const principal = await getTokenValidator().validate(token);
+        await checkTokenBinding(req, res, extracted, principal);
+
+        const bindingError = checkRevocation(principal) ?? checkSessionBinding(req, principal);
+        if (bindingError) {
+          log.flow(`     ❌ Token rejected: ${bindingError.message}`);
+          handleUnauthorized(req, res, bindingError);
+          return;
+        }
+        req.auth = principal;
+        auditAuthSuccess(req, extracted, principal);
         
         // Show detailed token info
-        console.log("     ✅ Token validation successful:", {
-          sub: decodedToken.sub,
-          exp: new Date(decodedToken.exp! * 1000).toISOString(),
-          iat: decodedToken.iat ? new Date(decodedToken.iat * 1000).toISOString() : 'unknown',
-          iss: decodedToken.iss,
-          aud: decodedToken.aud
-        });
+        log.flow(`     ✅ Token validation successful: ${JSON.stringify({
+          sub: principal.subject,
+          exp: principal.expiresAt ? new Date(principal.expiresAt).toISOString() : 'unknown',
+          iat: principal.claims.iat ? new Date(principal.claims.iat * 1000).toISOString() : 'unknown',
+          iss: principal.claims.iss,
+          aud: principal.claims.aud
+        })}`);
         
-        console.log(`\n🛠️ STEP 8: Begin standard MCP message exchange`);
+        log.flow(`\n🛠️ STEP 8: Begin standard MCP message exchange`);
       } catch (error: unknown) {
-        console.error("     ❌ Token validation failed:", error instanceof Error ? error.message : 'Unknown error');
-        res.writeHead(401);
-        res.end(
-          JSON.stringify({
-            error: "Unauthorized",
-            code: 401,
-            message: `Invalid token: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          })
-        );
+        const authError = toAuthError(error);
+        log.flow(`     ❌ Token validation failed: ${authError.message}`);
+        handleUnauthorized(req, res, authError);
         return;
       }
     } else {
       // Just log token contents without validation
       try {
         const decoded = decodeToken(token);
-        console.log(`\n🔒 STEP 7: MCP Request with Access Token (not verified)`);
-        console.log("     Token decoded:", {
+        log.flow(`\n🔒 STEP 7: MCP Request with Access Token (not verified)`);
+        log.flow(`     Token decoded: ${JSON.stringify({
           sub: decoded.sub,
           exp: decoded.exp ? new Date(decoded.exp * 1000).toISOString() : 'unknown',
           iss: decoded.iss || 'unknown'
-        });
+        })}`);
         
-        console.log(`\n🛠️ STEP 8: Begin standard MCP message exchange`);
+        log.flow(`\n🛠️ STEP 8: Begin standard MCP message exchange`);
       } catch (error: unknown) {
-        console.error("     Token decode error:", error instanceof Error ? error.message : 'Unknown error');
+        log.warn("Token decode error", error);
       }
     }
 
     // Token exists and passes validation if required
-    console.log(`Authentication succeeded: Token found via ${source}. URL: ${req.url}`);
+    log.debug(`Authentication succeeded: Token found via ${source} for ${getRequestPath(req)}`);
     next();
   } catch (error) {
-    console.error("Auth error:", error);
+    log.error("Auth error", error);
     res.writeHead(500);
     res.end(JSON.stringify({ error: "Internal Server Error" }));
   }
@@ -0,0 +1,126 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { checkIpLimit, checkRouteLimit, getCallerKey, RateLimitError } from "../limits";
+import { SessionLimitError, SessionsClosedError } from "../mcp";
+import { getRequestPath } from "./auth";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("limits");
+
+/**
+ * Identify an unauthenticated caller by its address
+ */
+export function getClientIp(req: IncomingMessage): string {
+  return req.socket.remoteAddress || "unknown";
+}
+
+/**
+ * Send a 429 response for an exceeded limit
+ */
+export function handleRateLimited(
+  req: IncomingMessage,
+  res: ServerResponse,
+  error: RateLimitError
+): void {
+  log.warn(`Rate limit exceeded for ${getRequestPath(req)}: ${error.message}`);
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (Number.isFinite(error.retryAfterSeconds)) {
+    headers["Retry-After"] = String(error.retryAfterSeconds);
+  }
+
+  res.writeHead(429, headers);
+  res.end(
+    JSON.stringify({
+      error: "rate_limited",
+      error_description: error.message,
+    })
+  );
+}
+
+/**
+ * Send a 429 response for a caller that already holds too many sessions
+ */
+export function handleSessionLimit(
+  req: IncomingMessage,
+  res: ServerResponse,
+  error: SessionLimitError
+): void {
+  log.warn(`Session limit reached for ${getRequestPath(req)}: ${error.message}`);
+
+  res.writeHead(429, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      error: "too_many_sessions",
+      error_description: "Too many open sessions, close one before opening another",
+    })
+  );
+}
+
+/**
+ * Send a 503 response for a session opened while the server shuts down
+ */
+export function handleSessionsClosed(
+  req: IncomingMessage,
+  res: ServerResponse,
+  error: SessionsClosedError
+): void {
+  log.warn(`Session refused for ${getRequestPath(req)}: ${error.message}`);
+
+  res.writeHead(503, { "Content-Type": "application/json", "Retry-After": "1" });
+  res.end(
+    JSON.stringify({
+      error: "temporarily_unavailable",
+      error_description: error.message,
+    })
+  );
+}
+
+/**
+ * Per-address rate limiting middleware
+ *
+ * Must run before the auth middleware, so unauthenticated floods are
+ * limited without verifying their tokens.
+ */
+export function ipRateLimitMiddleware(
+  req: IncomingMessage,
+  res: ServerResponse,
+  next: () => void
+): void {
+  if (req.method === "OPTIONS") {
+    return next();
+  }
+
+  const limited = checkIpLimit(getClientIp(req));
+  if (limited) {
+    handleRateLimited(req, res, limited);
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Rate limiting middleware
+ *
+ * Must run after the auth middleware so authenticated callers are limited
+ * per subject or client rather than per IP.
+ */
+export async function rateLimitMiddleware(
+  req: IncomingMessage,
+  res: ServerResponse,
+  next: () => void
+): Promise<void> {
+  if (req.method === "OPTIONS") {
+    return next();
+  }
+
+  const path = (req.url || "").split("?")[0];
+  const callerKey = getCallerKey(req.auth, `ip:${getClientIp(req)}`);
+  const limited = checkRouteLimit(path, req.auth, callerKey);
+  if (limited) {
+    handleRateLimited(req, res, limited);
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,24 @@
+// What a revocation matches: one token by its `jti`, every token of a
+// subject, or a subject's tokens issued before a point in time
+export type RevocationType = "jti" | "subject" | "issued_before";
+
+// A token or subject that must no longer be accepted
+export interface RevocationEntry {
+  id: string;
+  type: RevocationType;
+  // The `jti` for "jti" entries, otherwise the subject
+  value: string;
+  // Issuer of the revoked subject (required for "subject" and "issued_before"
+  // entries, since subjects are only unique per issuer) or token
+  issuer?: string;
+  // For "issued_before" entries: tokens with an earlier `iat` are refused (ISO 8601)
+  issuedBefore?: string;
+  // Why the entry was added, for whoever reads the list later
+  reason?: string;
+  // Subject of the admin who added the entry
+  createdBy?: string;
+  // ISO 8601 time the entry was added
+  createdAt: string;
+  // When the entry can be dropped, e.g. once the revoked token has expired (ISO 8601)
+  expiresAt?: string;
+}
@@ -0,0 +1,207 @@
+import { randomUUID } from "node:crypto";
+import { RevocationEntry, RevocationType } from "./entry";
+import { FileRevocationStore, MemoryRevocationStore, RevocationStore } from "./stores";
+import { getPrincipalKey, Principal } from "../auth/principal";
+import { sessionManager } from "../mcp";
+import { createLogger } from "../utils/logger";
+import { config } from "../config";
+
+const log = createLogger("revocation");
+
+export * from "./entry";
+export * from "./stores";
+
+// Revocation configuration
+export interface RevocationConfig {
+  // "file" keeps revocations across restarts, "memory" only until exit
+  store: "memory" | "file";
+  // File used by the "file" store
+  file: string;
+}
+
+// Revocation configuration
+export const revocationConfig: RevocationConfig = config.revocation;
+
+// A revocation as requested, before it is given an ID
+export type RevocationInput = Omit<RevocationEntry, "id" | "createdAt">;
+
+/**
+ * Error for a revocation request that is incomplete or inconsistent
+ */
+export class InvalidRevocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidRevocationError";
+  }
+}
+
+const REVOCATION_TYPES: RevocationType[] = ["jti", "subject", "issued_before"];
+
+/**
+ * Check that a time is given as ISO 8601 and return it in milliseconds
+ */
+function parseTime(value: string | undefined, field: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new InvalidRevocationError(`${field} must be an ISO 8601 time`);
+  }
+  return time;
+}
+
+/**
+ * Whether a revocation names a principal's subject
+ *
+ * Entries saved before revocations named an issuer apply to the subject at
+ * every issuer.
+ */
+function matchesSubject(entry: RevocationEntry, principal: Principal): boolean {
+  if (entry.issuer === undefined) {
+    return principal.subject === entry.value;
+  }
+  return getPrincipalKey(principal) === getPrincipalKey({ issuer: entry.issuer, subject: entry.value });
+}
+
+/**
+ * Whether a revocation applies to a principal's token
+ */
+export function revocationMatches(entry: RevocationEntry, principal: Principal): boolean {
+  switch (entry.type) {
+    case "jti":
+      return principal.claims.jti === entry.value && (entry.issuer === undefined || principal.issuer === entry.issuer);
+    case "subject":
+      return matchesSubject(entry, principal);
+    case "issued_before": {
+      if (!matchesSubject(entry, principal)) {
+        return false;
+      }
+      // A token without `iat` can't show it was issued afterwards
+      const issuedAt = principal.claims.iat;
+      return issuedAt === undefined || issuedAt * 1000 < Date.parse(entry.issuedBefore!);
+    }
+  }
+}
+
+/**
+ * Tokens and subjects that are refused even though their tokens verify
+ *
+ * Entries are kept in memory for fast lookups and written through to the
+ * store on every change. Entries past their `expiresAt` are dropped.
+ */
+export class RevocationList {
+  private entries: RevocationEntry[];
+
+  constructor(private store: RevocationStore) {
+    this.entries = store.load();
+  }
+
+  /**
+   * Add a revocation, after checking it is complete
+   *
+   * Throws when the store can't save it.
+   */
+  add(input: RevocationInput): RevocationEntry {
+    if (!REVOCATION_TYPES.includes(input.type)) {
+      throw new InvalidRevocationError(`type must be one of ${REVOCATION_TYPES.join(", ")}`);
+    }
+    if (!input.value) {
+      throw new InvalidRevocationError("value is required");
+    }
+    if (input.type !== "jti" && !input.issuer) {
+      throw new InvalidRevocationError(`issuer is required for ${input.type} revocations`);
+    }
+    if (input.type === "issued_before" && input.issuedBefore === undefined) {
+      throw new InvalidRevocationError("issuedBefore is required for issued_before revocations");
+    }
+    parseTime(input.issuedBefore, "issuedBefore");
+    parseTime(input.expiresAt, "expiresAt");
+
+    const entry: RevocationEntry = {
+      id: randomUUID(),
+      ...input,
+      createdAt: new Date().toISOString(),
+    };
+    // Saved first, so an entry that can't be kept is not reported as added
+    const entries = [...this.entries, entry];
+    this.store.save(entries);
+    this.entries = entries;
+    return entry;
+  }
+
+  /**
+   * Remove an entry by ID, returning it, or undefined when there is none
+   */
+  remove(id: string): RevocationEntry | undefined {
+    const entry = this.entries.find((candidate) => candidate.id === id);
+    if (entry) {
+      const entries = this.entries.filter((candidate) => candidate !== entry);
+      this.store.save(entries);
+      this.entries = entries;
+    }
+    return entry;
+  }
+
+  /**
+   * Every entry still in force, oldest first
+   */
+  list(): RevocationEntry[] {
+    this.pruneExpired();
+    return [...this.entries];
+  }
+
+  /**
+   * Find the entry that revokes a principal's token, if any
+   */
+  match(principal: Principal): RevocationEntry | undefined {
+    return this.list().find((entry) => revocationMatches(entry, principal));
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    const current = this.entries.filter((entry) => !entry.expiresAt || Date.parse(entry.expiresAt) > now);
+    if (current.length !== this.entries.length) {
+      this.entries = current;
+      // Expired entries are pruned again on the next load if this fails
+      try {
+        this.store.save(this.entries);
+      } catch (error) {
+        log.error(`Unable to save revocations to the ${this.store.name} store`, error);
+      }
+    }
+  }
+}
+
+let revocationList: RevocationList | null = null;
+
+/**
+ * Get the server's revocation list, loading it from the configured store
+ */
+export function getRevocationList(): RevocationList {
+  if (!revocationList) {
+    const store = revocationConfig.store === "file"
+      ? new FileRevocationStore(revocationConfig.file)
+      : new MemoryRevocationStore();
+    revocationList = new RevocationList(store);
+    log.info(`Revocation store: ${store.name} (${revocationList.list().length} entries)`);
+  }
+  return revocationList;
+}
+
+/**
+ * Revoke tokens and close every live session they were used to open
+ *
+ * Returns the new entry and the number of sessions closed.
+ */
+export async function revoke(
+  input: RevocationInput
+): Promise<{ entry: RevocationEntry; sessionsClosed: number }> {
+  const entry = getRevocationList().add(input);
+  const sessionsClosed = await sessionManager.terminateMatching(
+    (principal) => revocationMatches(entry, principal),
+    "revoked"
+  );
+  log.info(`Revoked ${entry.type} ${entry.value}, closed ${sessionsClosed} session(s)`);
+  return { entry, sessionsClosed };
+}
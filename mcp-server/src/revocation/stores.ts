@@ -0,0 +1,92 @@
+import fs from "node:fs";
+import path from "node:path";
+import { RevocationEntry } from "./entry";
+
+function getMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Error raised when saved revocations can't be read
+ */
+export class RevocationStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RevocationStoreError";
+  }
+}
+
+/**
+ * Where revocations are kept between restarts
+ */
+export interface RevocationStore {
+  readonly name: string;
+  // Read the saved entries, once at startup
+  load(): RevocationEntry[];
+  // Replace the saved entries, throwing when they can't be kept
+  save(entries: RevocationEntry[]): void;
+}
+
+/**
+ * Keeps nothing: revocations last until the process exits
+ */
+export class MemoryRevocationStore implements RevocationStore {
+  readonly name = "memory";
+
+  load(): RevocationEntry[] {
+    return [];
+  }
+
+  save(): void {
+    // Entries only live in the revocation list
+  }
+}
+
+/**
+ * Revocations persisted to a local JSON file
+ *
+ * Every change is written straight away, atomically (write to a temporary
+ * file, then rename), so a revocation is never lost to a crash.
+ */
+export class FileRevocationStore implements RevocationStore {
+  readonly name = "file";
+
+  constructor(private file: string) {}
+
+  /**
+   * Read the saved entries
+   *
+   * A missing file means nothing has been revoked yet. A file that can't be
+   * read or parsed throws rather than being taken as an empty list, which
+   * would let revoked tokens back in.
+   */
+  load(): RevocationEntry[] {
+    let text: string;
+    try {
+      text = fs.readFileSync(this.file, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw new RevocationStoreError(`Unable to read revocations from ${this.file}: ${getMessage(error)}`);
+    }
+
+    let entries: unknown;
+    try {
+      entries = JSON.parse(text);
+    } catch (error) {
+      throw new RevocationStoreError(`Unable to parse revocations in ${this.file}: ${getMessage(error)}`);
+    }
+    if (!Array.isArray(entries)) {
+      throw new RevocationStoreError(`${this.file} must hold an array of revocations`);
+    }
+    return entries;
+  }
+
+  save(entries: RevocationEntry[]): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmpFile = `${this.file}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(entries, null, 2));
+    fs.renameSync(tmpFile, this.file);
+  }
+}
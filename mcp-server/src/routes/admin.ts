@@ -0,0 +1,230 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { z } from "zod";
+import { Router } from "../server/router";
+import { sessionManager } from "../mcp";
+import { getToolCatalog } from "../mcp/tools";
+import { getRevocationList, InvalidRevocationError, revoke } from "../revocation";
+import { getKeySetStatus } from "../auth/tokenValidator";
+import { getCorrelationId, getRequestPath, requireScopes } from "../middleware/auth";
+import { audit, AdminActionEvent, toAuditPrincipal } from "../audit";
+import { InvalidBodyError, readJsonBody } from "../utils/body";
+import { config } from "../config";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("admin");
+
+// Body of POST /admin/denylist
+const revocationBodySchema = z.object({
+  type: z.enum(["jti", "subject", "issued_before"]),
+  value: z.string().min(1),
+  issuer: z.string().min(1).optional(),
+  issuedBefore: z.string().optional(),
+  reason: z.string().optional(),
+  expiresAt: z.string().optional(),
+}).strict().refine((body) => body.type === "jti" || body.issuer, {
+  message: "Required for subject and issued_before revocations",
+  path: ["issuer"],
+});
+
+// Admin routes match whole path segments, with or without a query string.
+// Group prefixes don't apply to RegExp paths, so these include /admin.
+const SESSIONS_PATH = /^\/admin\/sessions(\/[^/?]+)?(\?|$)/;
+const DENYLIST_PATH = /^\/admin\/denylist(\?|$)/;
+const DENYLIST_ENTRY_PATH = /^\/admin\/denylist\/[^/?]+(\?|$)/;
+const TOOLS_PATH = /^\/admin\/tools(\?|$)/;
+const JWKS_PATH = /^\/admin\/jwks(\?|$)/;
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+/**
+ * Record an admin request in the audit log
+ */
+function recordAction(
+  req: IncomingMessage,
+  action: string,
+  outcome: AdminActionEvent["outcome"],
+  target?: string
+): void {
+  log.info(`${action} by ${req.auth!.subject}${target ? ` on ${target}` : ""}: ${outcome}`);
+  audit({
+    type: "admin.action",
+    correlationId: getCorrelationId(req),
+    requestId: req.requestId,
+    action,
+    method: req.method || "GET",
+    path: getRequestPath(req),
+    principal: toAuditPrincipal(req.auth)!,
+    target,
+    outcome,
+  });
+}
+
+/**
+ * Path segment after a route's base path, e.g. the ID in /admin/sessions/<id>
+ *
+ * Returns null when the segment isn't validly percent-encoded.
+ */
+function getPathParam(req: IncomingMessage, base: string): string | null | undefined {
+  const rest = getRequestPath(req).slice(base.length).replace(/^\/+/, "");
+  if (!rest) {
+    return undefined;
+  }
+  try {
+    return decodeURIComponent(rest);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET lists open sessions (optionally `?subject=` and `issuer=`) and
+ * GET /admin/sessions/<id> shows one; DELETE /admin/sessions/<id> closes one
+ * session and DELETE /admin/sessions?subject=<sub>&issuer=<iss> every
+ * session of a subject
+ */
+async function sessionsHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url || "", "http://localhost");
+  const subject = url.searchParams.get("subject") ?? undefined;
+  const issuer = url.searchParams.get("issuer") ?? undefined;
+  const sessionId = getPathParam(req, "/admin/sessions");
+
+  if (sessionId === null) {
+    recordAction(req, req.method === "GET" ? "sessions.get" : "sessions.terminate", "invalid");
+    sendJson(res, 400, { error: "The session ID is not validly percent-encoded" });
+    return;
+  }
+
+  if (req.method === "GET" && sessionId) {
+    const session = sessionManager.list().find((info) => info.sessionId === sessionId);
+    recordAction(req, "sessions.get", session ? "success" : "not_found", sessionId);
+    if (!session) {
+      sendJson(res, 404, { error: "Session not found" });
+      return;
+    }
+    sendJson(res, 200, session);
+    return;
+  }
+
+  if (req.method === "GET") {
+    const sessions = sessionManager.list().filter((session) =>
+      (!subject || session.subject === subject) && (!issuer || session.issuer === issuer)
+    );
+    recordAction(req, "sessions.list", "success", subject);
+    sendJson(res, 200, { sessions });
+    return;
+  }
+
+  if (sessionId) {
+    const closed = await sessionManager.terminate(sessionId, "terminated");
+    recordAction(req, "sessions.terminate", closed ? "success" : "not_found", sessionId);
+    sendJson(res, closed ? 200 : 404, { terminated: closed ? 1 : 0 });
+    return;
+  }
+
+  // Subjects are only unique per issuer, so both are needed
+  if (subject && issuer) {
+    const closed = await sessionManager.terminateSubject(subject, issuer, "terminated");
+    recordAction(req, "sessions.terminate_subject", "success", `${issuer} ${subject}`);
+    sendJson(res, 200, { terminated: closed });
+    return;
+  }
+
+  recordAction(req, "sessions.terminate", "invalid");
+  sendJson(res, 400, { error: "Give a session ID in the path, or subject and issuer query parameters" });
+}
+
+/**
+ * GET lists deny list entries, POST revokes tokens
+ * (`{type, value, issuer?, issuedBefore?, reason?, expiresAt?}`) and closes the
+ * sessions they opened, DELETE /admin/denylist/<id> removes an entry
+ */
+async function denyListHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (req.method === "GET") {
+    recordAction(req, "denylist.list", "success");
+    sendJson(res, 200, { entries: getRevocationList().list() });
+    return;
+  }
+
+  if (req.method === "DELETE") {
+    const id = getPathParam(req, "/admin/denylist");
+    if (id === null) {
+      recordAction(req, "denylist.remove", "invalid");
+      sendJson(res, 400, { error: "The entry ID is not validly percent-encoded" });
+      return;
+    }
+    let removed;
+    try {
+      removed = id ? getRevocationList().remove(id) : undefined;
+    } catch (err) {
+      log.error(`Unable to remove deny list entry ${id}`, err);
+      recordAction(req, "denylist.remove", "error", id);
+      sendJson(res, 500, { error: "Unable to save the deny list" });
+      return;
+    }
+    recordAction(req, "denylist.remove", removed ? "success" : "not_found", id);
+    if (!removed) {
+      sendJson(res, 404, { error: "Deny list entry not found" });
+      return;
+    }
+    sendJson(res, 200, removed);
+    return;
+  }
+
+  try {
+    const body = revocationBodySchema.safeParse(await readJsonBody(req, 64 * 1024));
+    if (!body.success) {
+      const issues = body.error.issues.map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`);
+      recordAction(req, "denylist.add", "invalid");
+      sendJson(res, 400, { error: issues.join("; ") });
+      return;
+    }
+    const { entry, sessionsClosed } = await revoke({ ...body.data, createdBy: req.auth!.subject });
+    recordAction(req, "denylist.add", "success", `${entry.type}:${entry.value}`);
+    sendJson(res, 201, { ...entry, sessionsClosed });
+  } catch (err) {
+    if (err instanceof InvalidBodyError || err instanceof InvalidRevocationError) {
+      recordAction(req, "denylist.add", "invalid");
+      sendJson(res, 400, { error: err.message });
+      return;
+    }
+    log.error("Unable to add deny list entry", err);
+    recordAction(req, "denylist.add", "error");
+    sendJson(res, 500, { error: "Unable to save the deny list" });
+  }
+}
+
+/**
+ * GET lists every tool, whether it is enabled and the scopes and claims it requires
+ */
+function toolsHandler(req: IncomingMessage, res: ServerResponse): void {
+  recordAction(req, "tools.list", "success");
+  sendJson(res, 200, { tools: getToolCatalog() });
+}
+
+/**
+ * GET reports the state of every trusted issuer's signing keys
+ */
+function jwksHandler(req: IncomingMessage, res: ServerResponse): void {
+  recordAction(req, "jwks.status", "success");
+  sendJson(res, 200, { issuers: getKeySetStatus() });
+}
+
+/**
+ * Register the admin API on a route group
+ *
+ * Every route requires a token granting the configured admin scope.
+ */
+export function adminRoutes(admin: Router): void {
+  admin.use(requireScopes([config.admin.scope]));
+
+  admin.get(SESSIONS_PATH, sessionsHandler);
+  admin.delete(SESSIONS_PATH, sessionsHandler);
+  admin.get(DENYLIST_PATH, denyListHandler);
+  admin.post(DENYLIST_PATH, denyListHandler);
+  admin.delete(DENYLIST_ENTRY_PATH, denyListHandler);
+  admin.get(TOOLS_PATH, toolsHandler);
+  admin.get(JWKS_PATH, jwksHandler);
+}
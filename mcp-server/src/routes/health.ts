@@ -0,0 +1,30 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { checkReadiness } from "../health";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("health");
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+/**
+ * Liveness: the process is up and serving requests
+ */
+export function livenessHandler(req: IncomingMessage, res: ServerResponse): void {
+  sendJson(res, 200, { status: "ok", uptimeSeconds: Math.round(process.uptime()) });
+}
+
+/**
+ * Readiness: the server's dependencies are in place, so it can take traffic
+ *
+ * Answers 503 with the same report when it is not ready.
+ */
+export async function readinessHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const report = await checkReadiness();
+  if (report.status !== "ready") {
+    log.warn(`Not ready: ${report.reasons.join("; ")}`);
+  }
+  sendJson(res, report.status === "ready" ? 200 : 503, report);
+}
@@ -0,0 +1,198 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import {
+  createMcpServer,
+  createStreamableHttpTransport,
+  sessionManager,
+  SessionLimitError,
+  SessionsClosedError,
+} from "../mcp";
+import {
+  InvalidMessageError,
+  isInitializeRequest,
+  StreamableHttpServerTransport,
+} from "../mcp/streamableHttp";
+import { InvalidBodyError, readJsonBody } from "../utils/body";
+import { getClientIp, handleSessionLimit, handleSessionsClosed } from "../middleware/rateLimit";
+import { handleUnauthorized } from "../middleware/auth";
+import { AuthError, missingTokenError } from "../auth/errors";
+import { isSamePrincipal } from "../auth/principal";
+import { config } from "../config";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("mcp-http");
+
+/**
+ * Send a JSON-RPC error that isn't tied to a request ID
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string
+): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+/**
+ * Get the session a request names in its Mcp-Session-Id header
+ */
+function getHeaderSessionId(req: IncomingMessage): string | undefined {
+  const header = req.headers["mcp-session-id"];
+  return (Array.isArray(header) ? header[0] : header) || undefined;
+}
+
+/**
+ * Look up the Streamable HTTP session a request is addressed to, answering
+ * the request with an error when there isn't one or the caller isn't the
+ * principal that opened it
+ */
+function findSession(
+  req: IncomingMessage,
+  res: ServerResponse
+): StreamableHttpServerTransport | undefined {
+  const sessionId = getHeaderSessionId(req);
+  if (!sessionId) {
+    sendJsonRpcError(res, 400, ErrorCode.InvalidRequest, "Mcp-Session-Id header is required");
+    return undefined;
+  }
+
+  const transport = sessionManager.getTransport(sessionId);
+  if (!transport) {
+    log.warn(`No active session found for ${sessionId.substring(0, 8)}...`);
+    sendJsonRpcError(res, 404, ErrorCode.InvalidRequest, "Session not found or expired");
+    return undefined;
+  }
+
+  if (!(transport instanceof StreamableHttpServerTransport)) {
+    sendJsonRpcError(res, 400, ErrorCode.InvalidRequest, "Session uses the SSE transport, send messages to /messages");
+    return undefined;
+  }
+
+  // Checked by the auth middleware too; a session without an owner is
+  // never one the caller may use
+  const owner = sessionManager.getPrincipal(sessionId);
+  if (!req.auth || !owner || !isSamePrincipal(req.auth, owner)) {
+    handleUnauthorized(
+      req,
+      res,
+      new AuthError("invalid_token", "The access token does not belong to the principal that opened this session")
+    );
+    return undefined;
+  }
+
+  sessionManager.touch(sessionId);
+  return transport;
+}
+
+/**
+ * Handle a POST: open a session with an initialize request, or pass
+ * messages on to an existing session
+ */
+async function handlePost(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  let body: unknown;
+  try {
+    body = await readJsonBody(req);
+  } catch (err) {
+    if (err instanceof InvalidBodyError) {
+      sendJsonRpcError(res, 400, ErrorCode.ParseError, err.message);
+      return;
+    }
+    throw err;
+  }
+
+  let transport: StreamableHttpServerTransport | undefined;
+  const opening = !getHeaderSessionId(req) && isInitializeRequest(body);
+  if (opening) {
+    // Sessions are bound to the caller that opens them, so one is needed
+    if (!req.auth) {
+      handleUnauthorized(req, res, missingTokenError());
+      return;
+    }
+
+    try {
+      transport = createStreamableHttpTransport(config.streamableHttp.jsonResponse, req.auth, req.requestId);
+    } catch (err) {
+      if (err instanceof SessionLimitError) {
+        handleSessionLimit(req, res, err);
+        return;
+      }
+      if (err instanceof SessionsClosedError) {
+        handleSessionsClosed(req, res, err);
+        return;
+      }
+      throw err;
+    }
+    await createMcpServer(req.auth, getClientIp(req)).connect(transport);
+    log.flow(`\n🛠️ STEP 8: Begin standard MCP message exchange`);
+    log.info(`Streamable HTTP session opened: ${transport.sessionId.substring(0, 8)}...`);
+  } else {
+    transport = findSession(req, res);
+    if (!transport) {
+      return;
+    }
+    log.flow(`\n📨 Processing message for MCP session ${transport.sessionId.substring(0, 8)}...`);
+  }
+
+  try {
+    await transport.handlePostRequest(req, res, body);
+  } catch (err) {
+    // Don't leave a session behind whose initialize request never ran
+    if (opening) {
+      await sessionManager.terminate(transport.sessionId, "terminated");
+    }
+    if (err instanceof InvalidMessageError) {
+      sendJsonRpcError(res, 400, ErrorCode.InvalidRequest, err.message);
+      return;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Handle the MCP Streamable HTTP endpoint
+ *
+ * POST sends messages (opening a session with an initialize request), GET
+ * opens a stream for server-initiated messages and DELETE ends the session.
+ *
+ * @see https://modelcontextprotocol.io/specification/2025-03-26/basic/transports#streamable-http
+ */
+export async function mcpRequestHandler(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  try {
+    switch (req.method) {
+      case "POST":
+        await handlePost(req, res);
+        return;
+
+      case "GET": {
+        const transport = findSession(req, res);
+        transport?.handleGetRequest(req, res);
+        return;
+      }
+
+      case "DELETE": {
+        const transport = findSession(req, res);
+        if (transport) {
+          log.info(`Streamable HTTP session terminated by client: ${transport.sessionId.substring(0, 8)}...`);
+          await sessionManager.terminate(transport.sessionId, "client_disconnected");
+          res.writeHead(200).end();
+        }
+        return;
+      }
+
+      default:
+        res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+    }
+  } catch (err) {
+    log.error("Error handling MCP request", err);
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, ErrorCode.InternalError, "Internal server error");
+    } else if (!res.writableEnded) {
+      res.end();
+    }
+  }
+}
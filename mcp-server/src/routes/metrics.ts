@@ -0,0 +1,61 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { metricsConfig, metricsRegistry } from "../metrics";
+import { getClientIp } from "../middleware/rateLimit";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("metrics");
+
+/**
+ * Whether the scraper's address is allowed, matching IPv4 addresses whether
+ * or not they arrive IPv4-mapped on a dual-stack socket
+ */
+function isAllowedIp(req: IncomingMessage): boolean {
+  if (metricsConfig.allowedIps.length === 0) {
+    return true;
+  }
+  const ip = getClientIp(req).replace(/^::ffff:/, "");
+  return metricsConfig.allowedIps.includes(ip);
+}
+
+/**
+ * Whether the request carries the configured scrape token
+ */
+function hasValidToken(req: IncomingMessage): boolean {
+  if (!metricsConfig.token) {
+    return true;
+  }
+  const header = req.headers.authorization ?? "";
+  if (!header.toLowerCase().startsWith("bearer ")) {
+    return false;
+  }
+
+  // Compare digests so the comparison takes the same time for any length
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(header.substring(7).trim()), digest(metricsConfig.token));
+}
+
+/**
+ * Serve metrics in the Prometheus text format
+ *
+ * Access tokens are not checked here; scrapers are restricted by address
+ * and a static token instead, when configured.
+ */
+export function metricsHandler(req: IncomingMessage, res: ServerResponse): void {
+  if (!isAllowedIp(req)) {
+    log.warn(`Metrics scrape refused for ${getClientIp(req)}`);
+    res.writeHead(403, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "forbidden" }));
+    return;
+  }
+
+  if (!hasValidToken(req)) {
+    log.warn(`Metrics scrape without a valid token from ${getClientIp(req)}`);
+    res.writeHead(401, { "Content-Type": "application/json", "WWW-Authenticate": 'Bearer realm="metrics"' });
+    res.end(JSON.stringify({ error: "unauthorized" }));
+    return;
+  }
+
+  res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+  res.end(metricsRegistry.render());
+}
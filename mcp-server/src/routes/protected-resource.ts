@@ -1,4 +1,106 @@
+import fs from "node:fs";
 import { IncomingMessage, ServerResponse } from "node:http";
+import { importPKCS8, KeyLike, SignJWT } from "jose";
+import { getTrustedIssuers } from "../auth/tokenValidator";
+import { authConfig, getBearerMethodsSupported } from "../middleware/auth";
+import { getResourceMetadataPath, RESOURCE_URL } from "../auth/resource";
+import { dpopConfig } from "../auth/dpop";
+import { getToolScopes } from "../mcp/tools";
+import { createLogger } from "../utils/logger";
+import { config } from "../config";
+
+const log = createLogger("metadata");
+
+// Protected resource metadata configuration (RFC 9728)
+export interface ResourceMetadataConfig {
+  // Human-readable name of this resource server
+  resourceName: string;
+  // Page with developer documentation for this resource
+  resourceDocumentation?: string;
+  // Page describing how client data is used
+  resourcePolicyUri?: string;
+  // Terms of service for this resource
+  resourceTosUri?: string;
+  // PKCS#8 PEM private key used to produce signed_metadata; unsigned when unset
+  signingKeyFile?: string;
+  // Algorithm the metadata is signed with
+  signingAlgorithm: string;
+}
+
+// Protected resource metadata configuration
+export const resourceMetadataConfig: ResourceMetadataConfig = {
+  resourceName: config.resource.name,
+  resourceDocumentation: config.resource.documentation,
+  resourcePolicyUri: config.resource.policyUri,
+  resourceTosUri: config.resource.tosUri,
+  signingKeyFile: config.resource.signingKeyFile,
+  signingAlgorithm: config.resource.signingAlgorithm,
+};
+
+// Paths the metadata document is served at: the plain well-known path and,
+// for resources mounted under a path, the path-suffixed variant
+const metadataPaths = new Set([
+  "/.well-known/oauth-protected-resource",
+  getResourceMetadataPath(),
+]);
+
+let signingKey: Promise<KeyLike> | null = null;
+
+/**
+ * Load the metadata signing key once
+ */
+function getSigningKey(keyFile: string): Promise<KeyLike> {
+  if (!signingKey) {
+    const pem = fs.readFileSync(keyFile, "utf-8");
+    signingKey = importPKCS8(pem, resourceMetadataConfig.signingAlgorithm);
+  }
+  return signingKey;
+}
+
+/**
+ * Build the protected resource metadata document from configuration
+ *
+ * When a signing key is configured the same values are also returned as a
+ * JWT in `signed_metadata` (RFC 9728 section 2.2), issued by this resource.
+ */
+export async function buildResourceMetadata(): Promise<Record<string, unknown>> {
+  const config = resourceMetadataConfig;
+
+  // Advertise every authorization server whose tokens we accept
+  const authorizationServers = getTrustedIssuers().map(
+    (issuer) => issuer.authorizationServer ?? issuer.issuer
+  );
+
+  const metadata: Record<string, unknown> = {
+    resource: RESOURCE_URL,
+    resource_name: config.resourceName,
+    authorization_servers: [...new Set(authorizationServers)],
+    scopes_supported: [...new Set([...authConfig.scopes, ...getToolScopes()])],
+    bearer_methods_supported: getBearerMethodsSupported(),
+    dpop_signing_alg_values_supported: dpopConfig.algorithms,
+    dpop_bound_access_tokens_required: dpopConfig.required,
+  };
+
+  if (config.resourceDocumentation) {
+    metadata.resource_documentation = config.resourceDocumentation;
+  }
+  if (config.resourcePolicyUri) {
+    metadata.resource_policy_uri = config.resourcePolicyUri;
+  }
+  if (config.resourceTosUri) {
+    metadata.resource_tos_uri = config.resourceTosUri;
+  }
+
+  if (config.signingKeyFile) {
+    metadata.signed_metadata = await new SignJWT(metadata)
+      .setProtectedHeader({ alg: config.signingAlgorithm })
+      .setIssuer(RESOURCE_URL)
+      .setIssuedAt()
+      .sign(await getSigningKey(config.signingKeyFile));
+  }
+
+  return metadata;
+}
 
 /**
  * Handles requests for OAuth 2.0 Protected Resource Metadata
@@ -6,30 +108,32 @@ import { IncomingMessage, ServerResponse } from "node:http";
  * This endpoint implements the /.well-known/oauth-protected-resource discovery specification
  * which allows OAuth clients to discover information about the protected resource.
  *
- * @see https://datatracker.ietf.org/doc/html/draft-ietf-oauth-resource-metadata
+ * @see https://datatracker.ietf.org/doc/html/rfc9728
  */
 export async function protectedResourceHandler(
   req: IncomingMessage,
   res: ServerResponse
 ): Promise<void> {
-  console.log("\n📡 STEP 1: Received MCP Resource Metadata Request");
-  console.log("     Client requesting: /.well-known/oauth-protected-resource");
-  
-  // Build the protected resource metadata that points directly to Dex's OIDC config
-  const metadata = {
-    resource_name: "My MCP Server",
-    authorization_servers: ["http://localhost:5558"],
-  };
+  const path = (req.url || "").split("?")[0];
+  if (!metadataPaths.has(path)) {
+    res.writeHead(404).end("Not Found");
+    return;
+  }
+
+  log.flow("\n📡 STEP 1: Received MCP Resource Metadata Request");
+  log.flow(`     Client requesting: ${path}`);
+
+  const metadata = await buildResourceMetadata();
+
+  log.flow(`     Responding with authorization_servers: ${JSON.stringify(metadata.authorization_servers)}`);
 
-  console.log(`     Responding with authorization_servers: ${JSON.stringify(metadata.authorization_servers)}`);
-  
   // Set response headers for JSON content
   res.setHeader("Content-Type", "application/json");
   res.writeHead(200);
 
   // Return the metadata as JSON
   res.end(JSON.stringify(metadata, null, 2));
-  
-  console.log("     ✅ Resource Metadata JSON sent");
-  console.log("     ⏩ Next: Client will parse JSON and find authorization_servers");
+
+  log.flow("     ✅ Resource Metadata JSON sent");
+  log.flow("     ⏩ Next: Client will parse JSON and find authorization_servers");
 }
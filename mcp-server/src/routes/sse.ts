@@ -1,11 +1,18 @@
 import { IncomingMessage, ServerResponse } from "node:http";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import {
-  getMcpServer,
+  createMcpServer,
   createSseTransport,
-  getTransport,
-  removeTransport,
+  sessionManager,
+  SessionLimitError,
+  SessionsClosedError,
 } from "../mcp";
-import { setCorsHeaders } from "../utils/cors";
+import { getClientIp, handleSessionLimit, handleSessionsClosed } from "../middleware/rateLimit";
+import { handleUnauthorized } from "../middleware/auth";
+import { missingTokenError } from "../auth/errors";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("sse");
 
 /**
  * Handle SSE connection setup
@@ -14,30 +21,41 @@ export async function sseConnectionHandler(
   req: IncomingMessage,
   res: ServerResponse
 ): Promise<void> {
-  // Create the transport (this sets up the SSE connection)
-  const transport = createSseTransport("/messages", res);
-
-  // Make sure our custom headers are set after the transport is created
-  // This ensures we don't lose our CORS headers
-  setCorsHeaders(req, res);
+  // Sessions are bound to the caller that opens them, so one is needed
+  if (!req.auth) {
+    handleUnauthorized(req, res, missingTokenError());
+    return;
+  }
 
-  // Log the token status for debugging
-  if (req.headers.authorization) {
-    console.log("\n🔒 Establishing authenticated SSE connection");
-    console.log("     SSE connection with valid auth token");
-  } else {
-    console.log("\n⚠️ SSE connection without auth token - authentication will be required");
+  // Create the transport (this sets up the SSE connection)
+  let transport: SSEServerTransport;
+  try {
+    transport = createSseTransport("/messages", res, req.auth, req.requestId);
+  } catch (err) {
+    if (err instanceof SessionLimitError) {
+      handleSessionLimit(req, res, err);
+      return;
+    }
+    if (err instanceof SessionsClosedError) {
+      handleSessionsClosed(req, res, err);
+      return;
+    }
+    throw err;
   }
 
+  // Narrate the token status
+  log.flow("\n🔒 Establishing authenticated SSE connection");
+  log.flow("     SSE connection with valid auth token");
+
   res.on("close", async () => {
-    removeTransport(transport.sessionId);
-    console.log(`     Client disconnected: ${transport.sessionId}`);
+    sessionManager.remove(transport.sessionId);
+    log.info(`Client disconnected: ${transport.sessionId.substring(0, 8)}...`);
   });
 
   try {
-    await getMcpServer().connect(transport);
-    console.log(`\n🛠️ STEP 8: Begin standard MCP message exchange`);
-    console.log("     SSE Connection established, session: " + transport.sessionId.substring(0, 8) + "...");
+    await createMcpServer(req.auth, getClientIp(req)).connect(transport);
+    log.flow(`\n🛠️ STEP 8: Begin standard MCP message exchange`);
+    log.info(`SSE connection established, session: ${transport.sessionId.substring(0, 8)}...`);
     
     await transport.send({
       jsonrpc: "2.0",
@@ -45,9 +63,9 @@ export async function sseConnectionHandler(
       params: { message: "SSE Connection established" },
     });
     
-    console.log("     ✅ MCP server ready for message exchange");
+    log.flow("     ✅ MCP server ready for message exchange");
   } catch (err) {
-    console.error("❌ Error connecting to server:", err);
+    log.error("Error connecting to server", err);
     if (!res.writableEnded) {
       res.writeHead(500).end("Error connecting to server");
     }
@@ -59,6 +77,13 @@ export async function sseMessagesHandler(
   res: ServerResponse,
   url: string
 ): Promise<void> {
+  // Don't rely on the middleware alone: a message without a verified
+  // caller could drive any session whose ID it knows
+  if (!req.auth) {
+    handleUnauthorized(req, res, missingTokenError());
+    return;
+  }
+
   // The sessionId is initially created when a client connects through sseConnectionHandler
   // and createSseTransport generates a unique ID for that connection.
   // Clients must include this same sessionId in the URL of subsequent requests
@@ -67,36 +92,40 @@ export async function sseMessagesHandler(
     ? new URL(url)
     : new URL(url, `http://${req.headers.host || "localhost"}`);
 
-  // Set CORS headers first to ensure they're always included
-  setCorsHeaders(req, res);
-
   const sessionId = urlObj.searchParams.get("sessionId");
 
   if (!sessionId) {
-    res.writeHead(400).end(JSON.stringify({ error: "No sessionId provided" }));
+    res.writeHead(400, { "Content-Type": "application/json" }).end(JSON.stringify({ error: "No sessionId provided" }));
     return;
   }
 
-  // If we have a valid sessionId, the connection is already authenticated
-  // So we can look up the transport even if no token is in this specific request
-  const activeTransport = getTransport(sessionId);
+  // The auth middleware has already checked that this request's token
+  // belongs to the same principal that opened the session
+  const activeTransport = sessionManager.getTransport(sessionId);
   if (!activeTransport) {
-    console.error(`❌ No active transport found for session ${sessionId}`);
-    res.writeHead(404).end(JSON.stringify({ error: "Session not found or expired" }));
+    log.warn(`No active transport found for session ${sessionId.substring(0, 8)}...`);
+    res.writeHead(404, { "Content-Type": "application/json" }).end(JSON.stringify({ error: "Session not found or expired" }));
     return;
   }
 
-  console.log(`\n📨 Processing message for MCP session ${sessionId.substring(0, 8)}...`);
+  if (!(activeTransport instanceof SSEServerTransport)) {
+    res.writeHead(400, { "Content-Type": "application/json" }).end(JSON.stringify({ error: "Session uses the Streamable HTTP transport, send messages to /mcp" }));
+    return;
+  }
+
+  sessionManager.touch(sessionId);
+
+  log.flow(`\n📨 Processing message for MCP session ${sessionId.substring(0, 8)}...`);
 
   try {
     // The SSE transport's handlePostMessage method will process
     // the incoming message and relay it to the MCP server
     await activeTransport.handlePostMessage(req, res);
-    console.log("     ✅ Message processed successfully");
+    log.flow("     ✅ Message processed successfully");
   } catch (err) {
-    console.error("❌ Error handling message:", err);
+    log.error("Error handling message", err);
     if (!res.writableEnded) {
-      res.writeHead(500).end(JSON.stringify({ error: "Internal server error" }));
+      res.writeHead(500, { "Content-Type": "application/json" }).end(JSON.stringify({ error: "Internal server error" }));
     }
   }
 }
\ No newline at end of file
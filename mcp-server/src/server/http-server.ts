@@ -1,12 +1,17 @@
-import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
 import { Router } from "./router.js";
 import { setCorsHeaders, handleOptionsRequest } from "../utils/cors.js";
+import { createLogger } from "../utils/logger.js";
+
+const log = createLogger("http");
 
 /**
  * HTTP server with routing and error handling
  */
 export class HttpServer {
   private router: Router;
+  private server?: Server;
 
   constructor(router: Router) {
     this.router = router;
@@ -23,12 +28,43 @@ export class HttpServer {
     });
 
     server.listen(port, host, () => {
-      console.log(`Server running at http://localhost:${port}`);
+      log.info(`Server listening on port ${port}`);
     });
 
+    this.server = server;
     return server;
   }
 
+  /**
+   * Stop accepting connections
+   *
+   * Resolves once every open connection has ended; idle keep-alive
+   * connections are closed right away, the rest when their responses end.
+   */
+  close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      server.close(() => resolve());
+      server.closeIdleConnections();
+    });
+  }
+
+  /**
+   * Drop connections still open, e.g. when a shutdown deadline passes, or
+   * only those with no request in progress
+   */
+  closeConnections(idleOnly = false): void {
+    if (idleOnly) {
+      this.server?.closeIdleConnections();
+    } else {
+      this.server?.closeAllConnections();
+    }
+  }
+
   /**
    * Handle an incoming request
    */
@@ -41,8 +77,9 @@ export class HttpServer {
       return;
     }
 
-    // Set CORS headers for all requests
-    setCorsHeaders(req, res);
+    // Tag the request so its log and audit entries can be found together
+    req.requestId = randomUUID();
+    res.setHeader("X-Request-Id", req.requestId);
 
     // Handle OPTIONS requests (CORS preflight)
     if (req.method === "OPTIONS") {
@@ -50,6 +87,9 @@ export class HttpServer {
       return;
     }
 
+    // Set CORS headers for all other requests
+    setCorsHeaders(req, res);
+
     // Route the request
     const routeMatched = await this.router.handleRequest(req, res);
 
@@ -67,7 +107,7 @@ export class HttpServer {
     res: ServerResponse,
     err: Error
   ): void {
-    console.error("Unhandled error in request handler:", err);
+    log.error("Unhandled error in request handler", err);
 
     if (!res.writableEnded) {
       res.writeHead(500).end("Internal Server Error");
@@ -1,4 +1,8 @@
 import { IncomingMessage, ServerResponse } from "node:http";
+import { observeRequest } from "../metrics";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("router");
 
 type RouteHandler = (
   req: IncomingMessage,
@@ -16,6 +20,8 @@ interface Route {
   method: string;
   path: string | RegExp;
   handler: RouteHandler;
+  // Middleware that runs after the router's own, for routes in a group
+  middleware?: MiddlewareHandler[];
 }
 
 export class Router {
@@ -46,6 +52,34 @@ export class Router {
     return this;
   }
 
+  /**
+   * Register a DELETE route handler
+   */
+  delete(path: string | RegExp, handler: RouteHandler): Router {
+    this.routes.push({ method: "DELETE", path, handler });
+    return this;
+  }
+
+  /**
+   * Register a group of routes under a path prefix
+   *
+   * Middleware added to the group only runs for the group's routes, after
+   * this router's middleware. String paths are prefixed; RegExp paths are
+   * matched against the full URL as they are.
+   */
+  group(prefix: string, configure: (group: Router) => void): Router {
+    const group = new Router();
+    configure(group);
+    for (const route of group.routes) {
+      this.routes.push({
+        ...route,
+        path: typeof route.path === "string" ? `${prefix}${route.path}` : route.path,
+        middleware: [...group.middleware, ...(route.middleware ?? [])],
+      });
+    }
+    return this;
+  }
+
   /**
    * Register route handlers for all methods
    */
@@ -90,14 +124,17 @@ export class Router {
       }
 
       if (isMatch) {
+        observeRequest(req, res, typeof route.path === "string" ? route.path : route.path.source);
+
         // Apply middleware chain
-        if (this.middleware.length > 0) {
+        const middleware = [...this.middleware, ...(route.middleware ?? [])];
+        if (middleware.length > 0) {
           try {
-            await this.executeMiddlewareChain(req, res, 0, async () => {
+            await this.executeMiddlewareChain(middleware, req, res, 0, async () => {
               await route.handler(req, res, url);
             });
           } catch (error) {
-            console.error("Middleware chain error:", error);
+            log.error("Middleware chain error", error);
             if (!res.writableEnded) {
               res.writeHead(500).end("Internal Server Error");
             }
@@ -110,6 +147,7 @@ export class Router {
       }
     }
 
+    observeRequest(req, res, "unmatched");
     return false;
   }
 
@@ -117,21 +155,22 @@ export class Router {
    * Execute middleware chain recursively
    */
   private async executeMiddlewareChain(
+    middleware: MiddlewareHandler[],
     req: IncomingMessage,
     res: ServerResponse,
     index: number,
     finalHandler: () => Promise<void>
   ): Promise<void> {
     // If we've gone through all middleware, execute the final handler
-    if (index >= this.middleware.length) {
+    if (index >= middleware.length) {
       return finalHandler();
     }
 
     // Execute the current middleware, passing a next function to call the next middleware
-    return this.middleware[index](req, res, async () => {
+    return middleware[index](req, res, async () => {
       // Skip to the next middleware if the response wasn't already sent
       if (!res.writableEnded) {
-        await this.executeMiddlewareChain(req, res, index + 1, finalHandler);
+        await this.executeMiddlewareChain(middleware, req, res, index + 1, finalHandler);
       }
     });
   }
@@ -0,0 +1,93 @@
+import { HttpServer } from "./http-server";
+import { sessionManager } from "../mcp";
+import { waitForToolCalls } from "../mcp/tools";
+import { stopKeyManagers } from "../auth/tokenValidator";
+import { closeAuditSinks } from "../audit";
+import { flushQuotas } from "../limits";
+import { createLogger } from "../utils/logger";
+import { config } from "../config";
+
+const log = createLogger("shutdown");
+
+// Shutdown configuration
+export interface ShutdownConfig {
+  // How long in-flight tool calls may run after SIGTERM/SIGINT
+  drainTimeoutMs: number;
+  // How long connections may take to end once sessions are closed
+  closeTimeoutMs: number;
+}
+
+// Shutdown configuration
+export const shutdownConfig: ShutdownConfig = config.shutdown;
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Stop the server without dropping work in progress
+ *
+ * New sessions and connections are refused first. Tool calls, including
+ * ones sent on the open sessions meanwhile, get up to `drainTimeoutMs` to
+ * return, then every session's client is told the server is going away
+ * and the session is closed.
+ * Connections still open after `closeTimeoutMs` are dropped. Finally
+ * pending quota usage and audit events are written out.
+ *
+ * Metrics are served from memory and are not persisted, so there is
+ * nothing to flush for them.
+ */
+export async function shutdown(server: HttpServer, config: ShutdownConfig = shutdownConfig): Promise<void> {
+  sessionManager.stopAccepting();
+  const closed = server.close();
+
+  const running = await waitForToolCalls(config.drainTimeoutMs);
+  if (running > 0) {
+    log.warn(`${running} tool call(s) still running after ${config.drainTimeoutMs}ms, closing anyway`);
+  }
+
+  const sessions = sessionManager.list().length;
+  await sessionManager.closeAll("server_closed");
+  log.info(`Closed ${sessions} session(s)`);
+
+  // Connections whose streams just ended are now idle
+  server.closeConnections(true);
+
+  await Promise.race([closed, delay(config.closeTimeoutMs)]);
+  server.closeConnections();
+
+  stopKeyManagers();
+  flushQuotas();
+  closeAuditSinks();
+}
+
+/**
+ * Shut down gracefully on SIGTERM and SIGINT
+ *
+ * A second signal while shutting down exits immediately.
+ */
+export function handleShutdownSignals(server: HttpServer): void {
+  let shuttingDown = false;
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      log.warn(`${signal} received again, exiting without waiting`);
+      process.exit(1);
+    }
+    shuttingDown = true;
+
+    log.info(`${signal} received, server shutting down...`);
+    shutdown(server)
+      .then(() => {
+        log.info("Server shut down");
+        process.exit(0);
+      })
+      .catch((err) => {
+        log.error("Error during shutdown", err);
+        process.exit(1);
+      });
+  };
+
+  process.on("SIGTERM", onSignal);
+  process.on("SIGINT", onSignal);
+}
@@ -0,0 +1,43 @@
+import { IncomingMessage } from "node:http";
+
+// Largest request body accepted by default
+const MAXIMUM_BODY_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Error for a request body that is missing, too large or not JSON
+ */
+export class InvalidBodyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidBodyError";
+  }
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+export async function readJsonBody(
+  req: IncomingMessage,
+  maxBytes: number = MAXIMUM_BODY_SIZE
+): Promise<unknown> {
+  const contentType = (req.headers["content-type"] || "").split(";")[0].trim();
+  if (contentType !== "application/json") {
+    throw new InvalidBodyError(`Unsupported content type: ${contentType || "none"}`);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new InvalidBodyError("Body too large");
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new InvalidBodyError("Body is not valid JSON");
+  }
+}
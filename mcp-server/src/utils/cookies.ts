@@ -0,0 +1,41 @@
+/**
+ * Parse a Cookie request header (RFC 6265 section 5.4)
+ *
+ * Values are split on the first "=" only, so values containing "=" (such as
+ * base64 padding) survive intact. Quoted values are unquoted and
+ * percent-encoded values decoded. The first occurrence of a name wins.
+ * The result has no prototype, so names such as `constructor` or
+ * `__proto__` are only present when the client sent them.
+ */
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = Object.create(null);
+  if (!header) {
+    return cookies;
+  }
+
+  for (const pair of header.split(";")) {
+    const separator = pair.indexOf("=");
+    if (separator === -1) {
+      continue;
+    }
+
+    const name = pair.slice(0, separator).trim();
+    let value = pair.slice(separator + 1).trim();
+    if (!name || name in cookies) {
+      continue;
+    }
+
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      // Not percent-encoded after all; keep the raw value
+      cookies[name] = value;
+    }
+  }
+
+  return cookies;
+}
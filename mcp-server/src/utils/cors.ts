@@ -1,44 +1,108 @@
 import { IncomingMessage, ServerResponse } from "node:http";
+import { config } from "../config";
+
+// Methods and request headers a browser may use on a route
+export interface CorsRouteRule {
+  methods: string[];
+  headers: string[];
+}
+
+// CORS configuration
+export interface CorsConfig {
+  // Exact origins ("https://app.example.com") or patterns where `*` matches
+  // any run of characters ("https://*.example.com", "http://localhost:*")
+  allowedOrigins: string[];
+  // Let browsers send cookies and Authorization headers cross-origin
+  allowCredentials: boolean;
+  // Response headers readable by browser clients
+  exposedHeaders: string[];
+  // How long browsers may cache a preflight response
+  maxAgeSeconds: number;
+  // Rules by path prefix; "*" applies to paths without their own entry
+  routes: Record<string, CorsRouteRule>;
+}
+
+// CORS configuration
+export const corsConfig: CorsConfig = config.cors;
+
+const originMatchers = corsConfig.allowedOrigins.map((origin) => {
+  if (!origin.includes("*")) {
+    return (candidate: string) => candidate === origin;
+  }
+  const pattern = origin
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  const regex = new RegExp(`^${pattern}$`);
+  return (candidate: string) => regex.test(candidate);
+});
+
+/**
+ * Check a request origin against the allowlist
+ */
+export function isOriginAllowed(origin: string): boolean {
+  return originMatchers.some((matches) => matches(origin));
+}
+
+/**
+ * Find the rule for a request path, falling back to the "*" rule
+ */
+function getRouteRule(path: string): CorsRouteRule | undefined {
+  const route = Object.keys(corsConfig.routes).find((prefix) => prefix !== "*" && path.startsWith(prefix));
+  return corsConfig.routes[route ?? "*"];
+}
 
 /**
  * Handle CORS headers for the request
+ *
+ * The origin is only echoed back when it is on the allowlist; other
+ * origins get no CORS headers at all, so the browser blocks the response.
  */
 export function setCorsHeaders(
   req: IncomingMessage,
   res: ServerResponse
 ): void {
-  // Set client origin (from port 3000, not 3001)
-  res.setHeader("Access-Control-Allow-Origin", "http://localhost:3000");
-  
-  // These headers are needed for all requests
-  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type, Accept, Cache-Control, Pragma");
-  res.setHeader("Access-Control-Allow-Credentials", "true");
+  // Responses differ by origin, so caches must keep them apart
   res.setHeader("Vary", "Origin");
-  
-  // Set content type based on the endpoint
-  if (req.url?.includes('/sse')) {
-    // For SSE endpoints, set text/event-stream content type
-    // Don't set Content-Type for OPTIONS requests as it causes issues
-    if (req.method !== 'OPTIONS') {
-      res.setHeader("Content-Type", "text/event-stream");
-      res.setHeader("Cache-Control", "no-cache");
-      res.setHeader("Connection", "keep-alive");
-    }
-  } else if (req.method !== 'OPTIONS') {
-    // For all other endpoints except OPTIONS
-    res.setHeader("Content-Type", "application/json");
+
+  const origin = req.headers.origin;
+  if (!origin || !isOriginAllowed(origin)) {
+    return;
+  }
+
+  res.setHeader("Access-Control-Allow-Origin", origin);
+  if (corsConfig.allowCredentials) {
+    res.setHeader("Access-Control-Allow-Credentials", "true");
+  }
+  if (corsConfig.exposedHeaders.length > 0) {
+    res.setHeader("Access-Control-Expose-Headers", corsConfig.exposedHeaders.join(", "));
   }
 }
 
 /**
  * Handle preflight OPTIONS requests
+ *
+ * Allowed origins are told which methods and headers the route accepts;
+ * a method the route doesn't accept gets no allow headers.
  */
 export function handleOptionsRequest(
   req: IncomingMessage,
   res: ServerResponse
 ): void {
   setCorsHeaders(req, res);
+
+  const origin = req.headers.origin;
+  const rule = getRouteRule((req.url || "").split("?")[0]);
+  const requestedMethod = req.headers["access-control-request-method"];
+
+  if (origin && isOriginAllowed(origin) && rule) {
+    if (!requestedMethod || rule.methods.includes(requestedMethod.toUpperCase())) {
+      res.setHeader("Access-Control-Allow-Methods", rule.methods.join(", "));
+      res.setHeader("Access-Control-Allow-Headers", rule.headers.join(", "));
+      res.setHeader("Access-Control-Max-Age", String(corsConfig.maxAgeSeconds));
+    }
+  }
+
   res.writeHead(204);
   res.end();
 }
@@ -0,0 +1,8 @@
+import { configureLogger, LoggerConfig } from "mcp-shared";
+import { config } from "../config";
+
+export { createLogger, redact } from "mcp-shared";
+export type { Logger, LoggerConfig, LogLevel } from "mcp-shared";
+
+// Logger configuration
+export const loggerConfig: LoggerConfig = configureLogger(config.logging);
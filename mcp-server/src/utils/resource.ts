@@ -0,0 +1,14 @@
+/**
+ * Normalize a resource identifier (RFC 8707 section 2)
+ *
+ * Resource indicators are absolute URIs without a fragment. Scheme and host
+ * are lower-cased by URL parsing and a trailing slash is dropped so that
+ * "http://host/" and "http://host" compare equal.
+ */
+export function normalizeResource(resource: string): string {
+  const url = new URL(resource);
+  if (url.hash) {
+    throw new Error(`Resource identifier must not contain a fragment: ${resource}`);
+  }
+  return url.toString().replace(/\/$/, "");
+}
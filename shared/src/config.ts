@@ -0,0 +1,187 @@
+import fs from "node:fs";
+
+// How a raw environment variable or flag value is turned into a setting
+export type SettingType = "string" | "number" | "boolean" | "list";
+
+// A setting that can also be given as an environment variable or a flag
+export interface SettingSource {
+  // Dotted path of the setting in the configuration object
+  path: string;
+  // Environment variable holding the setting
+  env?: string;
+  // Command line flag (without the leading dashes) holding the setting
+  flag?: string;
+  type: SettingType;
+}
+
+/**
+ * Error raised when the configuration can't be loaded or is invalid
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+// One validation failure reported by a schema
+export interface ConfigIssue {
+  path: Array<string | number>;
+  message: string;
+}
+
+/**
+ * What `loadConfig` needs of a schema; zod schemas fit it, without this
+ * package depending on a particular zod
+ */
+export interface ConfigSchema<T> {
+  safeParse(data: unknown):
+    | { success: true; data: T }
+    | { success: false; error: { issues: ConfigIssue[] } };
+}
+
+/**
+ * Result of loading the configuration
+ */
+export interface LoadedConfig<T> {
+  config: T;
+  // Paths of the settings that were given explicitly, and where
+  origins: Map<string, string>;
+}
+
+function parseValue(raw: string | true, type: SettingType): unknown {
+  if (raw === true) {
+    return type === "boolean" ? true : raw;
+  }
+  switch (type) {
+    case "number":
+      return raw.trim() === "" ? raw : Number(raw);
+    case "boolean":
+      return raw === "true" || raw === "1" ? true : raw === "false" || raw === "0" ? false : raw;
+    case "list":
+      return raw.split(",").map((item) => item.trim()).filter(Boolean);
+    default:
+      return raw;
+  }
+}
+
+function setPath(target: Record<string, any>, path: string, value: unknown): void {
+  const keys = path.split(".");
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (!node[key] || typeof node[key] !== "object") {
+      node[key] = {};
+    }
+    node = node[key];
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Record the dotted paths of every leaf in a config file
+ */
+function collectPaths(value: unknown, prefix: string, into: Map<string, string>, origin: string): void {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      collectPaths(item, prefix ? `${prefix}.${key}` : key, into, origin);
+    }
+  } else if (prefix) {
+    into.set(prefix, origin);
+  }
+}
+
+/**
+ * Parse `--name value`, `--name=value` and bare `--name` flags
+ */
+function parseFlags(argv: string[], sources: SettingSource[]): Map<string, string | true> {
+  const known = new Map(sources.filter((s) => s.flag).map((s) => [s.flag!, s]));
+  const flags = new Map<string, string | true>();
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith("--")) {
+      continue;
+    }
+
+    const separator = arg.indexOf("=");
+    const name = separator === -1 ? arg.slice(2) : arg.slice(2, separator);
+    const inline = separator === -1 ? undefined : arg.slice(separator + 1);
+    if (name !== "config" && !known.has(name)) {
+      throw new ConfigError(`Unknown option --${name}`);
+    }
+
+    if (inline !== undefined) {
+      flags.set(name, inline);
+    } else if (known.get(name)?.type !== "boolean" && index + 1 < argv.length && !argv[index + 1].startsWith("--")) {
+      flags.set(name, argv[++index]);
+    } else {
+      flags.set(name, true);
+    }
+  }
+  return flags;
+}
+
+/**
+ * Describe validation failures one setting per line, with where each came from
+ */
+function formatIssues(issues: ConfigIssue[], origins: Map<string, string>): string {
+  const lines = issues.map((issue) => {
+    const path = issue.path.join(".") || "(root)";
+    const origin = origins.get(path);
+    return `  - ${path}: ${issue.message}${origin ? ` (from ${origin})` : ""}`;
+  });
+  return `Invalid configuration:\n${lines.join("\n")}`;
+}
+
+/**
+ * Load configuration from a JSON file, environment variables and command
+ * line flags, in increasing order of precedence, and validate it
+ *
+ * The file is named by the `--config` flag or the `fileEnv` variable.
+ * Settings not given anywhere take the schema's defaults.
+ */
+export function loadConfig<T>(
+  schema: ConfigSchema<T>,
+  sources: SettingSource[],
+  options: { fileEnv: string; argv?: string[]; env?: NodeJS.ProcessEnv }
+): LoadedConfig<T> {
+  const env = options.env ?? process.env;
+  const flags = parseFlags(options.argv ?? process.argv.slice(2), sources);
+  const origins = new Map<string, string>();
+  let raw: Record<string, any> = {};
+
+  const configFlag = flags.get("config");
+  const file = typeof configFlag === "string" ? configFlag : env[options.fileEnv];
+  if (file) {
+    try {
+      raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+    } catch (error) {
+      throw new ConfigError(
+        `Unable to read config file ${file}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    collectPaths(raw, "", origins, file);
+  }
+
+  for (const source of sources) {
+    const value = source.env ? env[source.env] : undefined;
+    if (value !== undefined && value !== "") {
+      setPath(raw, source.path, parseValue(value, source.type));
+      origins.set(source.path, source.env!);
+    }
+  }
+
+  for (const source of sources) {
+    const value = source.flag ? flags.get(source.flag) : undefined;
+    if (value !== undefined) {
+      setPath(raw, source.path, parseValue(value, source.type));
+      origins.set(source.path, `--${source.flag}`);
+    }
+  }
+
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    throw new ConfigError(formatIssues(result.error.issues, origins));
+  }
+  return { config: result.data, origins };
+}
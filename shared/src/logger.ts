@@ -0,0 +1,122 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+// Logger configuration
+export interface LoggerConfig {
+  // Least severe level that is written
+  level: LogLevel;
+  // "pretty" for people, "json" (one object per line) for log collectors
+  format: "pretty" | "json";
+  // Narrate each step of the OAuth / MCP flow (the `--explain-flow` flag)
+  explainFlow: boolean;
+}
+
+// Logger configuration, until the process sets its own
+const loggerConfig: LoggerConfig = { level: "info", format: "pretty", explainFlow: false };
+
+/**
+ * Apply the process's logging settings, returning the configuration every
+ * logger now writes with
+ */
+export function configureLogger(settings: LoggerConfig): LoggerConfig {
+  return Object.assign(loggerConfig, settings);
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const REDACTED = "[REDACTED]";
+
+// Object keys whose values are always secret
+const SECRET_KEYS = /^(authorization|proxy-authorization|cookie|set-cookie|dpop|access_token|refresh_token|id_token|client_secret|password|secret|token)$/i;
+
+// Secrets embedded in free text: auth headers, JWTs and form/query parameters.
+// `code` is only an authorization code as a query parameter (`?code=`/`&code=`)
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(Bearer|DPoP|Basic)\s+[A-Za-z0-9\-._~+/]{16,}=*/gi, `$1 ${REDACTED}`],
+  [/eyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]*\.[A-Za-z0-9_-]*/g, REDACTED],
+  [/\b(access_token|refresh_token|id_token|client_secret|password|token)=[^&\s"';,]+/gi, `$1=${REDACTED}`],
+  [/([?&])code=[^&\s"';,#]+/g, `$1code=${REDACTED}`],
+];
+
+/**
+ * Remove tokens, authorization codes, client secrets and cookies from a
+ * value before it is logged
+ */
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (typeof value === "string") {
+    return SECRET_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redact(value.message),
+      ...("code" in value && value.code !== undefined ? { code: value.code } : {}),
+      ...(loggerConfig.level === "debug" && value.stack ? { stack: redact(value.stack) } : {}),
+    };
+  }
+  if (!value || typeof value !== "object" || depth > 5) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SECRET_KEYS.test(key) ? REDACTED : redact(item, depth + 1);
+  }
+  return result;
+}
+
+export interface Logger {
+  debug(message: string, details?: unknown): void;
+  info(message: string, details?: unknown): void;
+  warn(message: string, details?: unknown): void;
+  error(message: string, details?: unknown): void;
+  // A step of the flow walkthrough, only written in explain-flow mode
+  flow(message: string): void;
+}
+
+function write(level: LogLevel, namespace: string, message: string, details: unknown): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[loggerConfig.level]) {
+    return;
+  }
+
+  const stream = level === "error" || level === "warn" ? process.stderr : process.stdout;
+  const text = redact(message) as string;
+  const safeDetails = details === undefined ? undefined : redact(details);
+
+  if (loggerConfig.format === "json") {
+    stream.write(
+      `${JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        namespace,
+        message: text,
+        details: safeDetails,
+      })}\n`
+    );
+    return;
+  }
+
+  const suffix = safeDetails === undefined
+    ? ""
+    : ` ${typeof safeDetails === "string" ? safeDetails : JSON.stringify(safeDetails)}`;
+  stream.write(`${new Date().toISOString()} ${level.toUpperCase().padEnd(5)} [${namespace}] ${text}${suffix}\n`);
+}
+
+/**
+ * Create a logger for a module
+ */
+export function createLogger(namespace: string): Logger {
+  return {
+    debug: (message, details) => write("debug", namespace, message, details),
+    info: (message, details) => write("info", namespace, message, details),
+    warn: (message, details) => write("warn", namespace, message, details),
+    error: (message, details) => write("error", namespace, message, details),
+    flow: (message) => {
+      if (loggerConfig.explainFlow) {
+        process.stdout.write(`${redact(message)}\n`);
+      }
+    },
+  };
+}